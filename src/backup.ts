@@ -0,0 +1,109 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import SQLiteDatabase, { Database } from 'better-sqlite3';
+
+import { BackupInfo } from './types';
+import { MigrationBackupError } from './errors.js';
+
+/**
+ * Matches backup file names, the id is a UTC timestamp with milliseconds and an optional counter.
+ */
+const BACKUP_FILE = /^(\d{17}(?:_\d+)?)\.db$/;
+
+/**
+ * Get the path of the backup with the given id.
+ */
+function backupPath(dir: string, id: string): string {
+  if (!BACKUP_FILE.test(`${id}.db`)) {
+    throw new MigrationBackupError(`Invalid backup id "${id}".`);
+  }
+  return path.join(dir, `${id}.db`);
+}
+
+/**
+ * List the backups in a directory, most recent first.
+ */
+export async function listBackups(dir: string): Promise<BackupInfo[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') {
+      return [];
+    }
+    throw new MigrationBackupError(`Failed to list backups in "${dir}"`, err as Error);
+  }
+
+  return entries
+    .map((file) => BACKUP_FILE.exec(file)?.[1])
+    .filter((id): id is string => id !== undefined)
+    .sort()
+    .reverse()
+    .map((id) => ({
+      id,
+      path: path.join(dir, `${id}.db`),
+      createdAt: id.replace(
+        /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{3}).*$/,
+        '$1-$2-$3T$4:$5:$6.$7Z'
+      ),
+    }));
+}
+
+/**
+ * Back up a database into a directory and delete the oldest backups beyond `keep`.
+ * Returns the id of the new backup.
+ */
+export async function createBackup(db: Database, dir: string, keep: number): Promise<string> {
+  try {
+    await fs.mkdir(dir, { recursive: true });
+
+    const existing = new Set((await listBackups(dir)).map((b) => b.id));
+    const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 17);
+    let id = timestamp;
+    for (let i = 1; existing.has(id); i++) {
+      id = `${timestamp}_${i}`;
+    }
+
+    await db.backup(backupPath(dir, id));
+
+    const backups = await listBackups(dir);
+    for (const backup of backups.slice(keep)) {
+      await fs.rm(backup.path, { force: true });
+    }
+
+    return id;
+  } catch (err) {
+    throw err instanceof MigrationBackupError
+      ? err
+      : new MigrationBackupError('Failed to back up the database', err as Error);
+  }
+}
+
+/**
+ * Overwrite a database with one of its backups.
+ * The database must be a file, the backup is copied into it using SQLite's backup API.
+ */
+export async function restoreBackup(db: Database, dir: string, id: string): Promise<void> {
+  if (db.memory) {
+    throw new MigrationBackupError('Backups can only be restored into a database file.');
+  }
+
+  const source = backupPath(dir, id);
+  try {
+    await fs.access(source);
+  } catch (err) {
+    throw new MigrationBackupError(`Backup "${id}" not found.`, err as Error);
+  }
+
+  try {
+    const backup = new SQLiteDatabase(source, { readonly: true, fileMustExist: true });
+    try {
+      await backup.backup(db.name);
+    } finally {
+      backup.close();
+    }
+  } catch (err) {
+    throw new MigrationBackupError(`Failed to restore backup "${id}"`, err as Error);
+  }
+}
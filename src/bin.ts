@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import process from 'process';
+
+import { run } from './cli.js';
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(`${String(err)}\n`);
+    process.exitCode = 1;
+  }
+);
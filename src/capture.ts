@@ -0,0 +1,72 @@
+import { Database, Statement } from 'better-sqlite3';
+
+/**
+ * Methods of a prepared statement that execute it.
+ */
+const EXECUTING_METHODS = new Set<PropertyKey>(['run', 'get', 'all', 'iterate']);
+
+/**
+ * Bind methods to the original object, so better-sqlite3's native methods keep working through a proxy.
+ */
+function bound(target: object, prop: PropertyKey): unknown {
+  const value = Reflect.get(target, prop, target);
+  return typeof value === 'function' ? value.bind(target) : value;
+}
+
+/**
+ * Wrap a prepared statement so its SQL is captured every time it is executed.
+ * Chained methods such as `bind()`, `pluck()` or `raw()` return the wrapped statement, so it stays captured.
+ */
+function captureStatement(statement: Statement, statements: string[]): Statement {
+  const proxy: Statement = new Proxy(statement, {
+    get(target, prop): unknown {
+      const value = bound(target, prop);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      return (...args: unknown[]): unknown => {
+        if (EXECUTING_METHODS.has(prop)) {
+          statements.push(target.source.trim());
+        }
+        const result = value(...args);
+        return result === target ? proxy : result;
+      };
+    },
+  });
+
+  return proxy;
+}
+
+/**
+ * Wrap a database so every SQL statement executed through `exec`, `prepare` or `pragma` is captured.
+ * @param statements Receives the captured SQL statements in execution order.
+ */
+export function captureDatabase(db: Database, statements: string[]): Database {
+  const proxy: Database = new Proxy(db, {
+    get(target, prop): unknown {
+      switch (prop) {
+        case 'exec':
+          return (sql: string): Database => {
+            statements.push(sql.trim());
+            target.exec(sql);
+            return proxy;
+          };
+
+        case 'prepare':
+          return (sql: string): Statement => captureStatement(target.prepare(sql), statements);
+
+        case 'pragma':
+          return (source: string, options?: { simple?: boolean }): unknown => {
+            statements.push(`PRAGMA ${source.trim()}`);
+            return target.pragma(source, options);
+          };
+
+        default:
+          return bound(target, prop);
+      }
+    },
+  });
+
+  return proxy;
+}
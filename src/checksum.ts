@@ -0,0 +1,8 @@
+import { createHash } from 'crypto';
+
+/**
+ * Compute the checksum of a migration's contents.
+ */
+export function computeChecksum(contents: string): string {
+  return createHash('sha256').update(contents).digest('hex');
+}
@@ -0,0 +1,216 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import SQLiteDatabase from 'better-sqlite3';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { run, CliIO } from './cli';
+
+describe('cli', () => {
+  let tempDir: string;
+  let migrationsDir: string;
+  let dbPath: string;
+  let stdout: string;
+  let stderr: string;
+  let io: CliIO;
+
+  const cli = (...argv: string[]): Promise<number> => {
+    stdout = '';
+    stderr = '';
+    return run(argv, io);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-up-cli-test-'));
+    migrationsDir = path.join(tempDir, 'migrations');
+    dbPath = path.join(tempDir, 'test.db');
+    await fs.mkdir(migrationsDir);
+
+    io = {
+      stdout: { write: (chunk: string): string => (stdout += chunk) },
+      stderr: { write: (chunk: string): string => (stderr += chunk) },
+      cwd: tempDir,
+    };
+
+    await fs.writeFile(
+      path.join(migrationsDir, '001_users.sql'),
+      '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE users;\n'
+    );
+    await fs.writeFile(
+      path.join(migrationsDir, '002_posts.sql'),
+      '-- +up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE posts;\n'
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply, report status and roll back migrations', async () => {
+    expect(await cli('apply', '--db', dbPath, '--migrations-dir', migrationsDir)).toBe(0);
+    expect(stdout).toContain('2 migration(s) applied');
+
+    expect(await cli('status', '-d', dbPath, '-m', migrationsDir, '--json')).toBe(0);
+    const status = JSON.parse(stdout);
+    expect(status.currentBatch).toBe(1);
+    expect(status.applied).toHaveLength(2);
+
+    expect(await cli('rollback', '-d', dbPath, '-m', migrationsDir, '--steps', '1')).toBe(0);
+    expect(stdout).toContain('002_posts.sql');
+    expect(stdout).not.toContain('001_users.sql');
+  });
+
+  it('should plan with a target', async () => {
+    expect(await cli('plan', '-d', dbPath, '-m', migrationsDir, '--to', '001_users.sql')).toBe(0);
+    expect(stdout).toContain('Batch 1 would apply');
+    expect(stdout).toContain('001_users.sql');
+    expect(stdout).not.toContain('002_posts.sql');
+  });
+
+  it('should print the sql of a dry run without applying', async () => {
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir, '--dry-run')).toBe(0);
+    expect(stdout).toContain('-- 001_users.sql\nCREATE TABLE users (id INTEGER PRIMARY KEY);');
+
+    expect(await cli('status', '-d', dbPath, '-m', migrationsDir, '--json')).toBe(0);
+    expect(JSON.parse(stdout).pending).toBe(2);
+  });
+
+  it('should write the schema file and print the schema', async () => {
+    expect(
+      await cli('apply', '-d', dbPath, '-m', migrationsDir, '--schema-file', 'schema.sql')
+    ).toBe(0);
+
+    const expected =
+      'CREATE TABLE posts (id INTEGER PRIMARY KEY);\n\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n';
+    expect(await fs.readFile(path.join(tempDir, 'schema.sql'), 'utf8')).toBe(expected);
+
+    expect(await cli('schema', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+    expect(stdout).toBe(expected);
+  });
+
+  it('should fail verification when a migration cannot be reverted', async () => {
+    expect(await cli('verify', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+    expect(stdout).toContain('ok 001_users.sql');
+
+    await fs.writeFile(
+      path.join(migrationsDir, '003_index.sql'),
+      '-- +up\nCREATE INDEX posts_id ON posts (id);\n'
+    );
+    expect(await cli('verify', '-d', dbPath, '-m', migrationsDir)).toBe(1);
+    expect(stdout).toContain('FAILED 003_index.sql');
+  });
+
+  it('should back up before applying and restore the backup', async () => {
+    const backup = ['-d', dbPath, '-m', migrationsDir, '--backup-dir', 'backups'];
+    expect(await cli('apply', ...backup, '--json')).toBe(0);
+    const { backupId } = JSON.parse(stdout);
+    expect(await fs.readdir(path.join(tempDir, 'backups'))).toEqual([`${backupId}.db`]);
+
+    expect(await cli('restore', backupId, ...backup)).toBe(0);
+    expect(await cli('status', '-d', dbPath, '-m', migrationsDir, '--json')).toBe(0);
+    expect(JSON.parse(stdout).pending).toBe(2);
+  });
+
+  it('should fail validation for out of order migrations', async () => {
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+    expect(await cli('validate', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+
+    await fs.writeFile(path.join(migrationsDir, '000_early.sql'), '-- +up\nSELECT 1;\n');
+    expect(await cli('validate', '-d', dbPath, '-m', migrationsDir)).toBe(1);
+    expect(stderr).toContain('"000_early.sql" sorts before applied migrations');
+
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir, '--out-of-order', 'erorr')).toBe(
+      2
+    );
+    expect(stderr).toContain('--out-of-order must be one of allow, warn, error.');
+    expect(await cli('status', '-d', dbPath, '-m', migrationsDir, '--json')).toBe(0);
+    expect(JSON.parse(stdout).pending).toBe(1);
+  });
+
+  it('should baseline up to a migration', async () => {
+    expect(await cli('baseline', '-d', dbPath, '-m', migrationsDir)).toBe(2);
+
+    expect(await cli('baseline', '-d', dbPath, '-m', migrationsDir, '--to', '001_users.sql')).toBe(
+      0
+    );
+    expect(stdout).toContain('1 migration(s) baselined');
+
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+    expect(stdout).toContain('1 migration(s) applied:\n  002_posts.sql');
+  });
+
+  it('should run seeds for an environment', async () => {
+    const seedsDir = path.join(tempDir, 'seeds');
+    await fs.mkdir(seedsDir);
+    await fs.writeFile(path.join(seedsDir, '001_users.sql'), 'INSERT INTO users VALUES (1);\n');
+    await fs.writeFile(
+      path.join(seedsDir, '002_posts.sql'),
+      '-- +env development\nINSERT INTO posts VALUES (1);\n'
+    );
+
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir)).toBe(0);
+    expect(await cli('seed', '-d', dbPath, '-m', migrationsDir)).toBe(2);
+    expect(stderr).toContain('Missing seeds directory');
+
+    const seed = ['seed', '-d', dbPath, '-m', migrationsDir, '--seeds-dir', 'seeds'];
+    expect(await cli(...seed, '--env', 'production')).toBe(0);
+    expect(stdout).toBe('1 seed(s) run:\n  001_users.sql\n');
+
+    expect(await cli(...seed, '--env', 'development', '--json')).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      success: true,
+      seeded: ['002_posts.sql'],
+      skipped: ['001_users.sql'],
+    });
+  });
+
+  it('should read options from the config file', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'sqlite-up.config.json'),
+      JSON.stringify({ db: 'test.db', migrationsDir: 'migrations', migrationsTable: 'custom' })
+    );
+
+    expect(await cli('apply')).toBe(0);
+
+    const db = new SQLiteDatabase(dbPath);
+    const rows = db.prepare('SELECT name FROM custom').all();
+    db.close();
+    expect(rows).toHaveLength(2);
+  });
+
+  it('should exit with a non-zero code when the migration fails', async () => {
+    await fs.writeFile(path.join(migrationsDir, '003_broken.sql'), '-- +up\nINVALID SQL;\n');
+
+    expect(await cli('apply', '-d', dbPath, '-m', migrationsDir, '--json')).toBe(1);
+    const result = JSON.parse(stdout);
+    expect(result.success).toBe(false);
+    expect(result.error.name).toBe('MigrationExecutionError');
+  });
+
+  it('should create a timestamped migration', async () => {
+    expect(
+      await cli('create', 'Add Email Index', '-d', dbPath, '-m', migrationsDir, '--format', 'sql')
+    ).toBe(0);
+
+    const files = await fs.readdir(migrationsDir);
+    expect(files).toContainEqual(expect.stringMatching(/^\d{14}_add_email_index\.sql$/));
+
+    expect(await cli('create', 'init', '-d', dbPath, '-m', 'new-migrations')).toBe(0);
+    expect(await fs.readdir(path.join(tempDir, 'new-migrations'))).toEqual([
+      expect.stringMatching(/^\d{14}_init\.ts$/),
+    ]);
+  });
+
+  it('should exit with a usage error for unknown commands and missing options', async () => {
+    expect(await cli('unknown', '-d', dbPath, '-m', migrationsDir)).toBe(2);
+    expect(stderr).toContain('Unknown command');
+
+    expect(
+      await cli('apply', '-d', dbPath, '-m', migrationsDir, '--transaction-mode', 'bogus')
+    ).toBe(2);
+    expect(stderr).toContain('--transaction-mode must be one of batch, migration.');
+
+    expect(await cli('status', '-m', migrationsDir)).toBe(2);
+    expect(stderr).toContain('Missing database path');
+  });
+});
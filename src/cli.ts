@@ -0,0 +1,601 @@
+import path from 'path';
+import process from 'process';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+
+import SQLiteDatabase, { Database } from 'better-sqlite3';
+
+import { Migrator } from './index.js';
+import {
+  BackupOptions,
+  MigrationFormat,
+  MigrationResult,
+  OutOfOrderPolicy,
+  TransactionMode,
+} from './types';
+
+/**
+ * Name of the config file that is used when no `--config` flag is provided.
+ */
+const DEFAULT_CONFIG_FILE = 'sqlite-up.config.json';
+
+const USAGE = `Usage: sqlite-up <command> [options]
+
+Commands:
+  status                 Show applied and pending migrations
+  plan                   Show the migrations that would be applied
+  apply                  Apply pending migrations
+  rollback               Roll back the most recent batch of migrations
+  baseline --to <name>   Record migrations up to <name> as applied without running them
+  mark-applied <name>    Record a migration as applied without running it
+  mark-unapplied <name>  Remove the record of an applied migration without running it
+  seed                   Run the seeds that have not run yet
+  create <name>          Create a new migration file
+  schema                 Print the normalized database schema
+  restore <id>           Restore a backup taken before a batch ran
+  validate               Check for missing, out of order and duplicate migrations
+  verify                 Check that pending migrations can be rolled back, on a copy of the database
+
+Options:
+  -d, --db <path>                SQLite database file
+  -m, --migrations-dir <dir>     Directory containing migration files
+  -c, --config <path>            Config file (default: ${DEFAULT_CONFIG_FILE} if present)
+      --migrations-table <name>  Name of the migrations table
+      --lock-table <name>        Name of the migrations lock table
+      --extensions <list>        Comma separated file extensions (e.g. ts,js,sql)
+      --validate-checksums       Refuse to apply when applied migrations were modified
+      --transaction-mode <mode>  One transaction per batch or per migration (batch|migration)
+      --out-of-order <policy>    Migrations sorting before applied ones (allow|warn|error)
+      --schema-file <path>       Rewrite this schema file after every apply and rollback
+      --backup-dir <dir>         Back up the database into this directory before every batch
+      --seeds-dir <dir>          Directory containing seed files
+      --to <name>                apply/plan/baseline: up to this migration, rollback: down to this migration
+      --steps <n>                Number of migrations to apply, plan or roll back
+      --batches <n>              rollback: number of batches to roll back
+      --all                      rollback: roll back all migrations
+      --dry-run                  apply: print the SQL each migration would execute without applying it
+      --format <ts|js|sql>       create: format of the migration file (default: ts)
+      --only <list>              seed: comma separated names of the seeds to run
+      --env <name>               seed: current environment, seeds for other environments are skipped
+      --json                     Output JSON
+  -h, --help                     Show this help
+`;
+
+/**
+ * Configuration for the CLI, read from a config file and overridden by flags.
+ */
+export interface CliConfig {
+  /**
+   * Path to the SQLite database file
+   */
+  db?: string;
+
+  /**
+   * Directory containing migration files
+   */
+  migrationsDir?: string;
+
+  /**
+   * Name of the migrations table
+   */
+  migrationsTable?: string;
+
+  /**
+   * Name of the migrations lock table
+   */
+  migrationsLockTable?: string;
+
+  /**
+   * Directory containing seed files
+   */
+  seedsDir?: string;
+
+  /**
+   * File extensions to look for when loading migrations
+   */
+  fileExtensions?: string[];
+
+  /**
+   * Refuse to apply migrations when an applied migration was modified after it ran
+   */
+  validateChecksums?: boolean;
+
+  /**
+   * Run all migrations of a batch in one transaction, or commit each migration on its own
+   */
+  transactionMode?: TransactionMode;
+
+  /**
+   * How to handle pending migrations that sort before already applied migrations
+   */
+  outOfOrder?: OutOfOrderPolicy;
+
+  /**
+   * Schema file that is rewritten after every successful apply or rollback
+   */
+  schemaFile?: string;
+
+  /**
+   * Back up the database before every batch
+   */
+  backup?: BackupOptions;
+}
+
+/**
+ * Streams and working directory used by the CLI.
+ */
+export interface CliIO {
+  stdout: { write: (chunk: string) => unknown };
+  stderr: { write: (chunk: string) => unknown };
+  cwd: string;
+}
+
+/**
+ * Thrown for invalid command line usage.
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const CLI_OPTIONS = {
+  db: { type: 'string', short: 'd' },
+  'migrations-dir': { type: 'string', short: 'm' },
+  config: { type: 'string', short: 'c' },
+  'migrations-table': { type: 'string' },
+  'lock-table': { type: 'string' },
+  extensions: { type: 'string' },
+  'validate-checksums': { type: 'boolean' },
+  'transaction-mode': { type: 'string' },
+  'out-of-order': { type: 'string' },
+  'schema-file': { type: 'string' },
+  'backup-dir': { type: 'string' },
+  'seeds-dir': { type: 'string' },
+  to: { type: 'string' },
+  steps: { type: 'string' },
+  batches: { type: 'string' },
+  all: { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  format: { type: 'string' },
+  only: { type: 'string' },
+  env: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ParsedArgs = ReturnType<
+  typeof parseArgs<{ options: typeof CLI_OPTIONS; allowPositionals: true }>
+>;
+
+/**
+ * Parse a positive integer flag.
+ */
+function parseCount(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new CliUsageError(`--${flag} must be a positive integer.`);
+  }
+  return count;
+}
+
+/**
+ * Parse a flag that accepts one of a fixed set of values.
+ */
+function parseChoice<T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: readonly T[]
+): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new CliUsageError(`--${flag} must be one of ${choices.join(', ')}.`);
+  }
+  return value as T;
+}
+
+/**
+ * Load the config file, paths in the config file are resolved relative to the file.
+ */
+async function loadConfig(args: ParsedArgs, cwd: string): Promise<CliConfig> {
+  const explicit = args.values.config;
+  const configPath = path.resolve(cwd, explicit ?? DEFAULT_CONFIG_FILE);
+
+  try {
+    await fs.access(configPath);
+  } catch {
+    if (explicit) {
+      throw new CliUsageError(`Config file "${explicit}" not found.`);
+    }
+    return {};
+  }
+
+  let config: CliConfig;
+  if (configPath.endsWith('.json')) {
+    config = JSON.parse(await fs.readFile(configPath, 'utf8')) as CliConfig;
+  } else {
+    const imported = (await import(pathToFileURL(configPath).href)) as { default?: CliConfig };
+    config = imported.default ?? {};
+  }
+
+  const configDir = path.dirname(configPath);
+  return {
+    ...config,
+    db: config.db && path.resolve(configDir, config.db),
+    migrationsDir: config.migrationsDir && path.resolve(configDir, config.migrationsDir),
+    seedsDir: config.seedsDir && path.resolve(configDir, config.seedsDir),
+    schemaFile: config.schemaFile && path.resolve(configDir, config.schemaFile),
+    backup: config.backup && { ...config.backup, dir: path.resolve(configDir, config.backup.dir) },
+  };
+}
+
+/**
+ * Merge the config file with the flags, flags take precedence.
+ */
+function resolveConfig(args: ParsedArgs, config: CliConfig, cwd: string): CliConfig {
+  const { values } = args;
+  return {
+    ...config,
+    db: values.db ? path.resolve(cwd, values.db) : config.db,
+    migrationsDir: values['migrations-dir']
+      ? path.resolve(cwd, values['migrations-dir'])
+      : config.migrationsDir,
+    seedsDir: values['seeds-dir'] ? path.resolve(cwd, values['seeds-dir']) : config.seedsDir,
+    migrationsTable: values['migrations-table'] ?? config.migrationsTable,
+    migrationsLockTable: values['lock-table'] ?? config.migrationsLockTable,
+    fileExtensions: values.extensions
+      ? values.extensions.split(',').map((ext) => ext.trim().replace(/^\./, ''))
+      : config.fileExtensions,
+    validateChecksums: values['validate-checksums'] ?? config.validateChecksums,
+    transactionMode:
+      parseChoice<TransactionMode>('transaction-mode', values['transaction-mode'], [
+        'batch',
+        'migration',
+      ]) ?? config.transactionMode,
+    outOfOrder:
+      parseChoice<OutOfOrderPolicy>('out-of-order', values['out-of-order'], [
+        'allow',
+        'warn',
+        'error',
+      ]) ?? config.outOfOrder,
+    schemaFile: values['schema-file']
+      ? path.resolve(cwd, values['schema-file'])
+      : config.schemaFile,
+    backup: values['backup-dir']
+      ? { ...config.backup, dir: path.resolve(cwd, values['backup-dir']) }
+      : config.backup,
+  };
+}
+
+/**
+ * Serialize values for JSON output, errors are reduced to their name and message.
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => (v instanceof Error ? { name: v.name, message: v.message } : v),
+    2
+  );
+}
+
+/**
+ * Print the SQL statements captured during a dry run.
+ */
+function reportCapturedSql(io: CliIO, result: MigrationResult): void {
+  for (const migration of result.capturedSql ?? []) {
+    io.stdout.write(`-- ${migration.name}\n`);
+    if (migration.skipped) {
+      io.stdout.write('-- skipped: runs outside of a transaction and cannot be dry run\n');
+    }
+    migration.statements.forEach((sql) => io.stdout.write(`${sql.replace(/;?$/, ';')}\n`));
+    io.stdout.write('\n');
+  }
+}
+
+/**
+ * Print the result of an apply or rollback and return the exit code.
+ */
+function reportResult(io: CliIO, json: boolean, verb: string, result: MigrationResult): number {
+  if (json) {
+    io.stdout.write(`${toJson(result)}\n`);
+  } else if (result.success) {
+    if (result.appliedMigrations.length === 0) {
+      io.stdout.write(`No migrations ${verb}.\n`);
+    } else {
+      io.stdout.write(`${result.appliedMigrations.length} migration(s) ${verb}:\n`);
+      result.appliedMigrations.forEach((name) => io.stdout.write(`  ${name}\n`));
+    }
+    if (result.backupId) {
+      io.stdout.write(`Backup: ${result.backupId}\n`);
+    }
+    result.driftedMigrations?.forEach((name) =>
+      io.stderr.write(`Warning: applied migration "${name}" was modified after it ran.\n`)
+    );
+    result.outOfOrderMigrations?.forEach((name) =>
+      io.stderr.write(`Warning: migration "${name}" sorts before already applied migrations.\n`)
+    );
+  } else {
+    io.stderr.write(`Error: ${result.error?.message ?? 'Unknown error'}\n`);
+    if (result.appliedMigrations.length > 0) {
+      io.stderr.write(`Committed before the failure: ${result.appliedMigrations.join(', ')}\n`);
+    }
+    if (result.backupId) {
+      io.stderr.write(`Restore the database with: sqlite-up restore ${result.backupId}\n`);
+    }
+  }
+
+  return result.success ? 0 : 1;
+}
+
+/**
+ * Run the CLI with the given arguments (without the node executable and script).
+ * Returns the process exit code.
+ */
+export async function run(
+  argv: string[],
+  io: CliIO = { stdout: process.stdout, stderr: process.stderr, cwd: process.cwd() }
+): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true });
+  } catch (err) {
+    io.stderr.write(`Error: ${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...rest] = args.positionals;
+  if (args.values.help || !command) {
+    io.stdout.write(USAGE);
+    return args.values.help ? 0 : 2;
+  }
+
+  const json = args.values.json ?? false;
+  let db: Database | undefined;
+  try {
+    const config = resolveConfig(args, await loadConfig(args, io.cwd), io.cwd);
+    if (!config.migrationsDir) {
+      throw new CliUsageError('Missing migrations directory, use --migrations-dir.');
+    }
+
+    if (
+      ![
+        'status',
+        'plan',
+        'apply',
+        'rollback',
+        'baseline',
+        'mark-applied',
+        'mark-unapplied',
+        'seed',
+        'create',
+        'schema',
+        'validate',
+        'verify',
+        'restore',
+      ].includes(command)
+    ) {
+      throw new CliUsageError(`Unknown command "${command}".`);
+    }
+    if (!config.db) {
+      throw new CliUsageError('Missing database path, use --db.');
+    }
+
+    db = new SQLiteDatabase(config.db);
+    const migrator = new Migrator({
+      db,
+      migrationsDir: config.migrationsDir,
+      seedsDir: config.seedsDir,
+      migrationsTable: config.migrationsTable,
+      migrationsLockTable: config.migrationsLockTable,
+      fileExtensions: config.fileExtensions,
+      validateChecksums: config.validateChecksums,
+      transactionMode: config.transactionMode,
+      outOfOrder: config.outOfOrder,
+      schemaFile: config.schemaFile,
+      backup: config.backup,
+    });
+
+    const { to } = args.values;
+    const steps = parseCount('steps', args.values.steps);
+    const batches = parseCount('batches', args.values.batches);
+
+    switch (command) {
+      case 'create': {
+        const name = rest.join('_');
+        if (!name) {
+          throw new CliUsageError('Missing migration name: sqlite-up create <name>');
+        }
+
+        const format = (args.values.format ?? 'ts') as MigrationFormat;
+        const filePath = await migrator.create(name, { format });
+        io.stdout.write(json ? `${toJson({ path: filePath })}\n` : `Created ${filePath}\n`);
+        return 0;
+      }
+
+      case 'status': {
+        const status = await migrator.status();
+        if (json) {
+          io.stdout.write(`${toJson(status)}\n`);
+        } else {
+          io.stdout.write(`Current batch: ${status.currentBatch}\n`);
+          io.stdout.write(`Pending: ${status.pending}\n`);
+          io.stdout.write(`Applied: ${status.applied.length}\n`);
+          status.applied.forEach((record) => {
+            const duration = record.duration_ms !== null ? `, ${record.duration_ms}ms` : '';
+            io.stdout.write(
+              `  [${record.batch}] ${record.name} (${record.executed_at}${duration})\n`
+            );
+          });
+          status.drifted.forEach((name) =>
+            io.stderr.write(`Warning: applied migration "${name}" was modified after it ran.\n`)
+          );
+        }
+        return 0;
+      }
+
+      case 'baseline': {
+        if (!to) {
+          throw new CliUsageError('Missing target migration: sqlite-up baseline --to <name>');
+        }
+
+        const result = await migrator.baseline({ to });
+        return reportResult(io, json, 'baselined', result);
+      }
+
+      case 'mark-applied':
+      case 'mark-unapplied': {
+        const [name] = rest;
+        if (!name) {
+          throw new CliUsageError(`Missing migration name: sqlite-up ${command} <name>`);
+        }
+
+        const result =
+          command === 'mark-applied'
+            ? await migrator.markApplied(name)
+            : await migrator.markUnapplied(name);
+        return reportResult(
+          io,
+          json,
+          command === 'mark-applied' ? 'marked as applied' : 'marked as unapplied',
+          result
+        );
+      }
+
+      case 'seed': {
+        if (!config.seedsDir) {
+          throw new CliUsageError('Missing seeds directory, use --seeds-dir.');
+        }
+
+        const only = args.values.only?.split(',').map((name) => name.trim());
+        const result = await migrator.seed({ only, env: args.values.env });
+        if (json) {
+          io.stdout.write(`${toJson(result)}\n`);
+        } else if (result.success) {
+          io.stdout.write(
+            result.seeded.length === 0
+              ? 'No seeds run.\n'
+              : `${result.seeded.length} seed(s) run:\n`
+          );
+          result.seeded.forEach((name) => io.stdout.write(`  ${name}\n`));
+        } else {
+          io.stderr.write(`Error: ${result.error?.message ?? 'Unknown error'}\n`);
+        }
+        return result.success ? 0 : 1;
+      }
+
+      case 'restore': {
+        const [id] = rest;
+        if (!id) {
+          throw new CliUsageError('Missing backup id: sqlite-up restore <id>');
+        }
+
+        await migrator.restoreBackup(id);
+        io.stdout.write(json ? `${toJson({ success: true, id })}\n` : `Restored backup ${id}\n`);
+        return 0;
+      }
+
+      case 'schema': {
+        const schema = await migrator.dumpSchema();
+        io.stdout.write(json ? `${toJson({ schema })}\n` : schema);
+        return 0;
+      }
+
+      case 'validate': {
+        const report = await migrator.validate();
+        if (json) {
+          io.stdout.write(`${toJson(report)}\n`);
+        } else if (report.valid) {
+          io.stdout.write('Migrations are valid.\n');
+        } else {
+          report.missing.forEach((name) =>
+            io.stderr.write(`Applied migration "${name}" no longer exists.\n`)
+          );
+          report.outOfOrder.forEach((name) =>
+            io.stderr.write(`Pending migration "${name}" sorts before applied migrations.\n`)
+          );
+          report.duplicates.forEach((name) =>
+            io.stderr.write(`Migration "${name}" has a duplicate name.\n`)
+          );
+        }
+        return report.valid ? 0 : 1;
+      }
+
+      case 'verify': {
+        const report = await migrator.verifyReversibility();
+        if (json) {
+          io.stdout.write(`${toJson(report)}\n`);
+        } else if (report.migrations.length === 0) {
+          io.stdout.write('No pending migrations.\n');
+        } else {
+          for (const check of report.migrations) {
+            io.stdout.write(`  ${check.reversible ? 'ok' : 'FAILED'} ${check.name}\n`);
+            if (check.error) {
+              io.stderr.write(`Error in "${check.name}": ${check.error.message}\n`);
+            } else if (!check.reversible) {
+              io.stderr.write(
+                `Schema after reverting "${check.name}":\n${check.actualSchema}\n` +
+                  `Expected:\n${check.expectedSchema}\n`
+              );
+            }
+          }
+        }
+        return report.success ? 0 : 1;
+      }
+
+      case 'plan': {
+        const plan = await migrator.plan({ to, steps });
+        if (json) {
+          io.stdout.write(`${toJson(plan)}\n`);
+        } else if (plan.pendingMigrations.length === 0) {
+          io.stdout.write('No pending migrations.\n');
+        } else {
+          io.stdout.write(`Batch ${plan.nextBatch} would apply:\n`);
+          plan.pendingMigrations.forEach((name) => io.stdout.write(`  ${name}\n`));
+          plan.outOfOrderMigrations?.forEach((name) =>
+            io.stderr.write(
+              `Warning: migration "${name}" sorts before already applied migrations.\n`
+            )
+          );
+        }
+        return 0;
+      }
+
+      case 'apply': {
+        const dryRun = args.values['dry-run'] ?? false;
+        const result = await migrator.apply({ to, steps, dryRun });
+        if (dryRun && !json) {
+          reportCapturedSql(io, result);
+        }
+        return reportResult(io, json, 'applied', result);
+      }
+
+      case 'rollback': {
+        const result = args.values.all
+          ? await migrator.reset()
+          : await migrator.rollback({ to, steps, batches });
+        return reportResult(io, json, 'rolled back', result);
+      }
+    }
+
+    return 0;
+  } catch (err) {
+    const error = err as Error;
+    if (json) {
+      io.stdout.write(`${toJson({ success: false, error })}\n`);
+    } else {
+      io.stderr.write(`Error: ${error.message}\n`);
+    }
+    return err instanceof CliUsageError ? 2 : 1;
+  } finally {
+    db?.close();
+  }
+}
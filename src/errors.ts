@@ -40,3 +40,41 @@ export class MigrationExecutionError extends MigrationError {
     this.name = 'MigrationExecutionError';
   }
 }
+
+/**
+ * Thrown when pending migrations sort before already applied migrations and `outOfOrder` is `error`
+ */
+export class MigrationOrderError extends MigrationError {
+  constructor(
+    message: string,
+    public readonly migrations: string[],
+    cause?: Error
+  ) {
+    super(message, cause);
+    this.name = 'MigrationOrderError';
+  }
+}
+
+/**
+ * Thrown when the database cannot be backed up or restored
+ */
+export class MigrationBackupError extends MigrationError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'MigrationBackupError';
+  }
+}
+
+/**
+ * Thrown when applied migrations no longer match their recorded checksum
+ */
+export class MigrationChecksumError extends MigrationError {
+  constructor(
+    message: string,
+    public readonly migrations: string[],
+    cause?: Error
+  ) {
+    super(message, cause);
+    this.name = 'MigrationChecksumError';
+  }
+}
@@ -1,5 +1,8 @@
 import os from 'os';
 import path from 'path';
+import process from 'process';
+import console from 'console';
+import { setTimeout as sleep } from 'timers/promises';
 import { promises as fs } from 'fs';
 import SQLiteDatabase, { Database } from 'better-sqlite3';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -9,8 +12,22 @@ import {
   MigrationLockError,
   MigrationExecutionError,
   MigrationError,
+  MigrationChecksumError,
+  MigrationBackupError,
+  MigrationOrderError,
 } from './errors';
-import { Migrator } from './index';
+import {
+  Migrator,
+  Logger,
+  consoleLogger,
+  MigrationFormat,
+  MigrationModule,
+  MigrationResult,
+  OutOfOrderPolicy,
+  TransactionMode,
+  MemoryMigrationSource,
+  DirectoryMigrationSource,
+} from './index';
 
 describe('Migrator', () => {
   let db: Database;
@@ -18,6 +35,24 @@ describe('Migrator', () => {
   let migrator: Migrator;
   let tempDir: string;
 
+  /**
+   * Write migrations that create and drop a table named after the migration, e.g. `users` for `001_users`.
+   */
+  const writeTableMigrations = async (names: string[], ext: 'ts' | 'sql'): Promise<void> => {
+    for (const name of names) {
+      const table = name.slice(4);
+      await fs.writeFile(
+        path.join(migrationsDir, `${name}.${ext}`),
+        ext === 'ts'
+          ? `
+          export function up(db) { db.exec('CREATE TABLE ${table} (id INTEGER PRIMARY KEY)'); }
+          export function down(db) { db.exec('DROP TABLE ${table}'); }
+          `
+          : `-- +up\nCREATE TABLE ${table} (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE ${table};\n`
+      );
+    }
+  };
+
   beforeEach(async () => {
     // Create temp directory for migrations
     tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-up-test-'));
@@ -189,6 +224,7 @@ describe('Migrator', () => {
         success: false,
         error: expect.any(MigrationExecutionError),
         appliedMigrations: [],
+        failedMigration: '003_error.ts',
       });
     });
 
@@ -349,11 +385,11 @@ describe('Migrator', () => {
 
       // Apply migration
       await migrator.apply();
-      expect(appliedSpy).toHaveBeenCalledWith('001_test.ts', 1);
+      expect(appliedSpy).toHaveBeenCalledWith('001_test.ts', 1, expect.any(Number));
 
       // Rollback migration
       await migrator.rollback();
-      expect(rolledBackSpy).toHaveBeenCalledWith('001_test.ts', 1);
+      expect(rolledBackSpy).toHaveBeenCalledWith('001_test.ts', 1, expect.any(Number));
 
       expect(errorSpy).not.toHaveBeenCalled();
     });
@@ -397,6 +433,91 @@ describe('Migrator', () => {
       expect(events).toContain('rolledback:002_posts.ts');
       expect(events).toContain('rolledback:001_users.ts');
     });
+
+    it('should emit lifecycle events in order with durations', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE users;\n'
+      );
+      await fs.writeFile(path.join(migrationsDir, '002_broken.sql'), '-- +up\nINVALID SQL;\n');
+      migrator = new Migrator({ db, migrationsDir, transactionMode: 'migration' });
+
+      const events: [string, ...unknown[]][] = [];
+      for (const event of [
+        'lock:acquired',
+        'batch:start',
+        'migration:start',
+        'migration:applied',
+        'migration:failed',
+        'batch:end',
+        'lock:released',
+      ] as const) {
+        migrator.on(event, (...args: unknown[]) => events.push([event, ...args]));
+      }
+
+      await migrator.apply();
+
+      expect(events).toEqual([
+        ['lock:acquired', { waitedMs: expect.any(Number) }],
+        ['batch:start', { direction: 'up', migrations: ['001_users.sql', '002_broken.sql'] }],
+        ['migration:start', { name: '001_users.sql', batch: 1, direction: 'up' }],
+        ['migration:applied', '001_users.sql', 1, expect.any(Number)],
+        ['migration:start', { name: '002_broken.sql', batch: 1, direction: 'up' }],
+        [
+          'migration:failed',
+          {
+            name: '002_broken.sql',
+            batch: 1,
+            direction: 'up',
+            error: expect.any(MigrationExecutionError),
+            durationMs: expect.any(Number),
+          },
+        ],
+        [
+          'batch:end',
+          {
+            direction: 'up',
+            migrations: ['001_users.sql', '002_broken.sql'],
+            success: false,
+            committed: ['001_users.sql'],
+            durationMs: expect.any(Number),
+            error: expect.any(MigrationExecutionError),
+          },
+        ],
+        ['lock:released', { heldMs: expect.any(Number) }],
+      ]);
+    });
+
+    it('should record the duration of each migration', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_slow.ts'),
+        `
+        export async function up(db) {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          db.exec('CREATE TABLE slow (id INTEGER PRIMARY KEY)');
+        }
+        export function down(db) { db.exec('DROP TABLE slow'); }
+        `
+      );
+
+      const appliedSpy = vi.fn();
+      migrator.on('migration:applied', appliedSpy);
+      await migrator.apply();
+
+      const [record] = (await migrator.status()).applied;
+      expect(record!.duration_ms).toBeGreaterThanOrEqual(45);
+      expect(appliedSpy).toHaveBeenCalledWith('001_slow.ts', 1, record!.duration_ms);
+    });
+
+    it('should not report the release of a lock held by another process', async () => {
+      await migrator.apply();
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      const releasedSpy = vi.fn();
+      migrator.on('lock:released', releasedSpy);
+      await migrator.forceUnlock();
+      expect(releasedSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('status and planning', () => {
@@ -747,4 +868,1888 @@ describe('Migrator', () => {
       expect(plan.pendingMigrations).toEqual(['002_posts.js', '003_comments.mjs']);
     });
   });
+
+  describe('sql migrations', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        `
+-- Users table
+-- +up
+CREATE TABLE users (id INTEGER PRIMARY KEY);
+CREATE INDEX idx_users_id ON users(id);
+
+-- +down
+DROP TABLE users;
+        `
+      );
+
+      await fs.writeFile(
+        path.join(migrationsDir, '002_posts.ts'),
+        `
+        export function up(db) {
+          db.exec('CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER)');
+        }
+        export function down(db) {
+          db.exec('DROP TABLE posts');
+        }
+        `
+      );
+    });
+
+    it('should load sql and ts migrations together in order', async () => {
+      const plan = await migrator.plan();
+      expect(plan.pendingMigrations).toEqual(['001_users.sql', '002_posts.ts']);
+    });
+
+    it('should apply and rollback sql migrations', async () => {
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['001_users.sql', '002_posts.ts']);
+
+      const index = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='index' AND name='idx_users_id'")
+        .get();
+      expect(index).toBeDefined();
+
+      const rollback = await migrator.rollback();
+      expect(rollback.success).toBe(true);
+
+      const tables = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name IN ('users', 'posts')")
+        .all();
+      expect(tables).toHaveLength(0);
+    });
+
+    it('should ignore sql files when not in the file extensions', async () => {
+      const customMigrator = new Migrator({
+        db,
+        migrationsDir,
+        fileExtensions: ['ts'],
+      });
+
+      const plan = await customMigrator.plan();
+      expect(plan.pendingMigrations).toEqual(['002_posts.ts']);
+    });
+
+    it('should throw when the up section is missing', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '003_invalid.sql'),
+        '-- +down\nDROP TABLE users;\n'
+      );
+
+      await expect(() => migrator.plan()).rejects.toThrow(MigrationFileError);
+    });
+
+    it('should throw on sql outside of a section', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '003_invalid.sql'),
+        'CREATE TABLE orphan (id INTEGER);\n-- +up\nSELECT 1;\n'
+      );
+
+      await expect(() => migrator.plan()).rejects.toThrow(MigrationFileError);
+    });
+
+    it('should refuse to roll back sql migrations without a down section', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '003_seed.sql'),
+        '-- +up\nINSERT INTO users (id) VALUES (1);\n'
+      );
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+
+      const rollback = await migrator.rollback();
+      expect(rollback.success).toBe(false);
+      expect(rollback.error).toBeInstanceOf(MigrationExecutionError);
+      expect((rollback.error as MigrationExecutionError).cause?.message).toBe(
+        'Migration "003_seed.sql" is irreversible, it has no "-- +down" section.'
+      );
+      expect(rollback.failedMigration).toBe('003_seed.sql');
+      expect((await migrator.status()).applied).toHaveLength(3);
+    });
+  });
+
+  describe('checksums', () => {
+    const migrationFile = (): string => path.join(migrationsDir, '001_users.ts');
+
+    beforeEach(async () => {
+      await fs.writeFile(
+        migrationFile(),
+        `
+        export function up(db) { db.exec('CREATE TABLE users (id INTEGER PRIMARY KEY)'); }
+        export function down(db) { db.exec('DROP TABLE users'); }
+        `
+      );
+    });
+
+    it('should record a checksum for applied migrations', async () => {
+      await migrator.apply();
+
+      const status = await migrator.status();
+      expect(status.applied[0]!.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(status.drifted).toEqual([]);
+    });
+
+    it('should report migrations modified after they were applied', async () => {
+      await migrator.apply();
+      await fs.appendFile(migrationFile(), '\n// edited');
+
+      const editedMigrator = new Migrator({ db, migrationsDir });
+      const driftSpy = vi.fn();
+      editedMigrator.on('migration:drift', driftSpy);
+
+      const status = await editedMigrator.status();
+      expect(status.drifted).toEqual(['001_users.ts']);
+
+      const result = await editedMigrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.driftedMigrations).toEqual(['001_users.ts']);
+      expect(driftSpy).toHaveBeenCalledWith('001_users.ts');
+    });
+
+    it('should refuse to apply when validating checksums', async () => {
+      await migrator.apply();
+      await fs.appendFile(migrationFile(), '\n// edited');
+      await fs.writeFile(
+        path.join(migrationsDir, '002_posts.ts'),
+        `
+        export function up(db) { db.exec('CREATE TABLE posts (id INTEGER PRIMARY KEY)'); }
+        export function down(db) { db.exec('DROP TABLE posts'); }
+        `
+      );
+
+      const strictMigrator = new Migrator({ db, migrationsDir, validateChecksums: true });
+      const result = await strictMigrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationChecksumError);
+      expect((result.error as MigrationChecksumError).migrations).toEqual(['001_users.ts']);
+      expect(result.appliedMigrations).toHaveLength(0);
+
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='posts'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+
+    it('should upgrade migrations tables without a checksum column', async () => {
+      db.exec(`
+        CREATE TABLE schema_migrations (
+          name TEXT PRIMARY KEY,
+          executed_at TEXT NOT NULL,
+          batch INTEGER NOT NULL
+        )
+      `);
+      db.prepare('INSERT INTO schema_migrations VALUES (?, ?, ?)').run(
+        '001_users.ts',
+        new Date().toISOString(),
+        1
+      );
+
+      const status = await migrator.status();
+      expect(status.applied).toEqual([
+        expect.objectContaining({ checksum: null, duration_ms: null }),
+      ]);
+      expect(status.drifted).toEqual([]);
+    });
+  });
+
+  describe('targeted apply', () => {
+    beforeEach(async () => {
+      await writeTableMigrations(['001_users', '002_posts', '003_comments'], 'ts');
+    });
+
+    it('should apply migrations up to a named migration', async () => {
+      const plan = await migrator.plan({ to: '002_posts.ts' });
+      expect(plan.pendingMigrations).toEqual(['001_users.ts', '002_posts.ts']);
+
+      const result = await migrator.apply({ to: '002_posts.ts' });
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(plan.pendingMigrations);
+
+      const status = await migrator.status();
+      expect(status.pending).toBe(1);
+    });
+
+    it('should apply a number of steps', async () => {
+      const first = await migrator.apply({ steps: 1 });
+      expect(first.appliedMigrations).toEqual(['001_users.ts']);
+
+      const plan = await migrator.plan({ steps: 2 });
+      expect(plan.nextBatch).toBe(2);
+      expect(plan.pendingMigrations).toEqual(['002_posts.ts', '003_comments.ts']);
+
+      const second = await migrator.apply({ steps: 2 });
+      expect(second.appliedMigrations).toEqual(['002_posts.ts', '003_comments.ts']);
+    });
+
+    it('should do nothing when the target is already applied', async () => {
+      await migrator.apply();
+
+      const result = await migrator.apply({ to: '001_users.ts' });
+      expect(result).toEqual({ success: true, appliedMigrations: [] });
+    });
+
+    it('should fail on an unknown target', async () => {
+      const result = await migrator.apply({ to: '999_unknown.ts' });
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationError);
+      expect(result.error?.message).toContain('999_unknown.ts');
+
+      await expect(migrator.plan({ to: '999_unknown.ts' })).rejects.toThrow(MigrationError);
+    });
+
+    it('should fail on invalid steps', async () => {
+      await expect(migrator.plan({ steps: 0 })).rejects.toThrow('Invalid number of steps');
+      await expect(migrator.plan({ to: '001_users.ts', steps: 1 })).rejects.toThrow(MigrationError);
+    });
+  });
+
+  describe('targeted rollback', () => {
+    const tableNames = (): string[] =>
+      (
+        db
+          .prepare(
+            "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('users', 'posts', 'comments') ORDER BY name"
+          )
+          .all() as { name: string }[]
+      ).map((t) => t.name);
+
+    beforeEach(async () => {
+      await writeTableMigrations(['001_users', '002_posts', '003_comments'], 'ts');
+
+      // Apply each migration in its own batch
+      await migrator.apply({ steps: 1 });
+      await migrator.apply({ steps: 1 });
+      await migrator.apply({ steps: 1 });
+    });
+
+    it('should rollback to a named migration', async () => {
+      const result = await migrator.rollback({ to: '001_users.ts' });
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['003_comments.ts', '002_posts.ts']);
+      expect(tableNames()).toEqual(['users']);
+    });
+
+    it('should rollback a number of batches', async () => {
+      const result = await migrator.rollback({ batches: 2 });
+      expect(result.appliedMigrations).toEqual(['003_comments.ts', '002_posts.ts']);
+
+      const status = await migrator.status();
+      expect(status.currentBatch).toBe(1);
+    });
+
+    it('should rollback a number of steps across batches', async () => {
+      await migrator.rollback({ batches: 2 });
+      await migrator.apply();
+
+      const result = await migrator.rollback({ steps: 1 });
+      expect(result.appliedMigrations).toEqual(['003_comments.ts']);
+      expect(tableNames()).toEqual(['posts', 'users']);
+    });
+
+    it('should reset all migrations and emit events for each', async () => {
+      const rolledBackSpy = vi.fn();
+      migrator.on('migration:rollback', rolledBackSpy);
+
+      const result = await migrator.reset();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['003_comments.ts', '002_posts.ts', '001_users.ts']);
+      expect(tableNames()).toEqual([]);
+
+      expect(rolledBackSpy).toHaveBeenCalledTimes(3);
+      expect(rolledBackSpy).toHaveBeenCalledWith('003_comments.ts', 3, expect.any(Number));
+      expect(rolledBackSpy).toHaveBeenCalledWith('001_users.ts', 1, expect.any(Number));
+    });
+
+    it('should fail when the target migration is not applied', async () => {
+      await migrator.rollback();
+
+      const result = await migrator.rollback({ to: '003_comments.ts' });
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationError);
+      expect(tableNames()).toEqual(['posts', 'users']);
+    });
+
+    it('should release the lock after a targeted rollback', async () => {
+      await migrator.rollback({ steps: 5 });
+
+      const lockStatus = db
+        .prepare(`SELECT locked FROM schema_migrations_lock WHERE id = 1`)
+        .get() as { locked: number };
+      expect(lockStatus.locked).toBe(0);
+    });
+  });
+
+  describe('create', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should create a timestamped migration from a template', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-01-22T12:29:22.402Z'));
+
+      const filePath = await migrator.create('Add Email Index');
+      expect(path.basename(filePath)).toBe('20250122122922_add_email_index.ts');
+
+      const contents = await fs.readFile(filePath, 'utf8');
+      expect(contents).toContain('export function up(db: Database): void');
+      expect(contents).toContain('export function down(db: Database): void');
+
+      const plan = await migrator.plan();
+      expect(plan.pendingMigrations).toEqual(['20250122122922_add_email_index.ts']);
+    });
+
+    it('should create sql and js migrations', async () => {
+      const sqlPath = await migrator.create('users', { format: 'sql' });
+      expect(sqlPath).toMatch(/_users\.sql$/);
+      expect(await fs.readFile(sqlPath, 'utf8')).toContain('-- +up');
+
+      const jsPath = await migrator.create('posts', { format: 'js' });
+      expect(jsPath).toMatch(/_posts\.js$/);
+    });
+
+    it('should create the migrations directory when it does not exist', async () => {
+      const newDir = path.join(tempDir, 'new', 'migrations');
+      const newMigrator = new Migrator({ db, migrationsDir: newDir });
+
+      const filePath = await newMigrator.create('users', { format: 'sql' });
+      expect(path.dirname(filePath)).toBe(newDir);
+      expect((await newMigrator.plan()).pendingMigrations).toEqual([path.basename(filePath)]);
+    });
+
+    it('should refuse names that sort before applied migrations', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '99999999999999_future.sql'),
+        '-- +up\nCREATE TABLE future (id INTEGER);\n'
+      );
+      await migrator.apply();
+
+      await expect(migrator.create('too_late')).rejects.toThrow(MigrationFileError);
+      expect(await fs.readdir(migrationsDir)).toEqual(['99999999999999_future.sql']);
+    });
+
+    it('should reject invalid names and formats', async () => {
+      await expect(migrator.create('!!!')).rejects.toThrow('Invalid migration name');
+      await expect(
+        migrator.create('users', { format: 'rb' as unknown as MigrationFormat })
+      ).rejects.toThrow('Unsupported migration format');
+    });
+  });
+
+  describe('migration sources', () => {
+    const createTable = (table: string): ((db: Database) => void) => {
+      return (db: Database): void => {
+        db.exec(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY)`);
+      };
+    };
+    const dropTable = (table: string): ((db: Database) => void) => {
+      return (db: Database): void => {
+        db.exec(`DROP TABLE ${table}`);
+      };
+    };
+
+    it('should apply migrations from an array in memory', async () => {
+      const memoryMigrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource([
+          { name: '002_posts', up: createTable('posts'), down: dropTable('posts') },
+          { name: '001_users', up: createTable('users'), down: dropTable('users') },
+        ]),
+      });
+
+      const result = await memoryMigrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['001_users', '002_posts']);
+
+      const rollback = await memoryMigrator.rollback();
+      expect(rollback.appliedMigrations).toEqual(['002_posts', '001_users']);
+    });
+
+    it('should load eager and lazy modules from a record', async () => {
+      const memoryMigrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource({
+          './migrations/002_posts.ts': async (): Promise<MigrationModule> => ({
+            up: createTable('posts'),
+            down: dropTable('posts'),
+          }),
+          './migrations/001_users.ts': { up: createTable('users'), down: dropTable('users') },
+        }),
+      });
+
+      const plan = await memoryMigrator.plan();
+      expect(plan.pendingMigrations).toEqual(['001_users.ts', '002_posts.ts']);
+    });
+
+    it('should reject modules without up and down', async () => {
+      const memoryMigrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource({
+          '001_invalid.ts': { up: createTable('users') } as never,
+        }),
+      });
+
+      await expect(memoryMigrator.plan()).rejects.toThrow(MigrationFileError);
+    });
+
+    it('should accept a directory source', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n'
+      );
+
+      const directoryMigrator = new Migrator({
+        db,
+        source: new DirectoryMigrationSource(migrationsDir, { fileExtensions: ['sql'] }),
+      });
+
+      const plan = await directoryMigrator.plan();
+      expect(plan.pendingMigrations).toEqual(['001_users.sql']);
+    });
+
+    it('should require a migrations directory or source', () => {
+      expect(() => new Migrator({ db })).toThrow(MigrationError);
+    });
+
+    it('should not create migrations without a migrations directory', async () => {
+      const memoryMigrator = new Migrator({ db, source: new MemoryMigrationSource([]) });
+
+      await expect(memoryMigrator.create('users')).rejects.toThrow(
+        'requires a migrations directory'
+      );
+    });
+  });
+
+  describe('async migrations', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.ts'),
+        `
+        export async function up(db) {
+          db.exec('CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)');
+          const names = await new Promise((resolve) => setTimeout(() => resolve(['alice', 'bob']), 10));
+          for (const name of names) {
+            db.prepare('INSERT INTO users (name) VALUES (?)').run(name);
+          }
+        }
+        export async function down(db) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          db.exec('DROP TABLE users');
+        }
+        `
+      );
+    });
+
+    it('should wait for async migrations before committing', async () => {
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+
+      const rows = db.prepare('SELECT name FROM users ORDER BY id').all();
+      expect(rows).toEqual([{ name: 'alice' }, { name: 'bob' }]);
+
+      const rollback = await migrator.rollback();
+      expect(rollback.success).toBe(true);
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='users'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+
+    it('should roll back the transaction when an async migration fails', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '002_fail.ts'),
+        `
+        export async function up(db) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          throw new Error('Async failure');
+        }
+        export async function down(db) {}
+        `
+      );
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationExecutionError);
+      expect(db.inTransaction).toBe(false);
+
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='users'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+
+    it('should reject async migrations inside a transaction opened by the caller', async () => {
+      await migrator.status();
+
+      db.exec('BEGIN');
+      const result = await migrator.apply();
+      db.exec('COMMIT');
+
+      expect(result.success).toBe(false);
+      expect((result.error as MigrationError).cause?.message).toContain('is async');
+
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='users'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+
+    it('should run sync migrations inside a transaction opened by the caller', async () => {
+      await fs.rm(path.join(migrationsDir, '001_users.ts'));
+      await fs.writeFile(
+        path.join(migrationsDir, '001_sync.sql'),
+        '-- +up\nCREATE TABLE sync (id INTEGER PRIMARY KEY);\n'
+      );
+      await migrator.status();
+
+      db.exec('BEGIN');
+      const result = await migrator.apply();
+      db.exec('ROLLBACK');
+
+      expect(result.success).toBe(true);
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='sync'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+  });
+
+  describe('migrations without transaction', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.ts'),
+        `
+        export function up(db) { db.exec('CREATE TABLE users (id INTEGER PRIMARY KEY)'); }
+        export function down(db) { db.exec('DROP TABLE users'); }
+        `
+      );
+
+      await fs.writeFile(
+        path.join(migrationsDir, '002_vacuum.ts'),
+        `
+        export const transaction = false;
+        export function up(db) { db.exec('VACUUM'); }
+        export function down(db) { db.exec('VACUUM'); }
+        `
+      );
+
+      await fs.writeFile(
+        path.join(migrationsDir, '003_posts.ts'),
+        `
+        export function up(db) { db.exec('CREATE TABLE posts (id INTEGER PRIMARY KEY)'); }
+        export function down(db) { db.exec('DROP TABLE posts'); }
+        `
+      );
+    });
+
+    it('should run migrations that opt out of transactions outside of a transaction', async () => {
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['001_users.ts', '002_vacuum.ts', '003_posts.ts']);
+
+      const status = await migrator.status();
+      expect(status.currentBatch).toBe(1);
+      expect(status.applied).toHaveLength(3);
+
+      const rollback = await migrator.rollback();
+      expect(rollback.success).toBe(true);
+      expect(rollback.appliedMigrations).toEqual(['003_posts.ts', '002_vacuum.ts', '001_users.ts']);
+    });
+
+    it('should report migrations committed before a failure', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '004_fail.ts'),
+        `
+        export function up(db) { db.exec('INVALID SQL'); }
+        export function down(db) {}
+        `
+      );
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationExecutionError);
+      expect(result.appliedMigrations).toEqual(['001_users.ts', '002_vacuum.ts']);
+
+      const status = await migrator.status();
+      expect(status.applied.map((r) => r.name)).toEqual(['001_users.ts', '002_vacuum.ts']);
+
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='posts'")
+        .get();
+      expect(table).toBeUndefined();
+    });
+
+    it('should support the no-transaction directive in sql migrations', async () => {
+      await fs.rm(path.join(migrationsDir, '002_vacuum.ts'));
+      await fs.writeFile(
+        path.join(migrationsDir, '002_vacuum.sql'),
+        '-- +no-transaction\n-- +up\nVACUUM;\n-- +down\nVACUUM;\n'
+      );
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toContain('002_vacuum.sql');
+    });
+
+    it('should fail when the connection is already in a transaction', async () => {
+      await migrator.status();
+
+      db.exec('BEGIN');
+      const result = await migrator.apply();
+      db.exec('ROLLBACK');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('must run outside of a transaction');
+    });
+  });
+
+  describe('transaction modes', () => {
+    beforeEach(async () => {
+      await writeTableMigrations(['001_users', '002_posts', '003_comments'], 'ts');
+      await fs.writeFile(
+        path.join(migrationsDir, '004_fail.ts'),
+        `
+        export function up(db) { db.exec('INVALID SQL'); }
+        export function down(db) {}
+        `
+      );
+    });
+
+    it('should reject unknown transaction modes', () => {
+      expect(
+        () => new Migrator({ db, migrationsDir, transactionMode: 'bogus' as TransactionMode })
+      ).toThrow('Unsupported transaction mode "bogus", use batch or migration.');
+    });
+
+    it('should discard the whole batch on failure in batch mode', async () => {
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.appliedMigrations).toEqual([]);
+      expect(result.failedMigration).toBe('004_fail.ts');
+
+      const status = await migrator.status();
+      expect(status.applied).toHaveLength(0);
+    });
+
+    it('should keep migrations committed before a failure in migration mode', async () => {
+      const perMigration = new Migrator({ db, migrationsDir, transactionMode: 'migration' });
+
+      const result = await perMigration.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationExecutionError);
+      expect(result.appliedMigrations).toEqual(['001_users.ts', '002_posts.ts', '003_comments.ts']);
+      expect(result.failedMigration).toBe('004_fail.ts');
+
+      const status = await perMigration.status();
+      expect(status.applied.map((r) => r.name)).toEqual([
+        '001_users.ts',
+        '002_posts.ts',
+        '003_comments.ts',
+      ]);
+      expect(status.currentBatch).toBe(1);
+    });
+
+    it('should report the failed migration on rollback in migration mode', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '004_fail.ts'),
+        `
+        export function up(db) {}
+        export function down(db) {}
+        `
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '003_comments.ts'),
+        `
+        export function up(db) { db.exec('CREATE TABLE comments (id INTEGER PRIMARY KEY)'); }
+        export function down(db) { throw new Error('Cannot revert'); }
+        `
+      );
+      const perMigration = new Migrator({ db, migrationsDir, transactionMode: 'migration' });
+      await perMigration.apply();
+
+      const result = await perMigration.reset();
+      expect(result.success).toBe(false);
+      expect(result.appliedMigrations).toEqual(['004_fail.ts']);
+      expect(result.failedMigration).toBe('003_comments.ts');
+    });
+  });
+
+  describe('lock ownership', () => {
+    it('should record the lock holder while migrating', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.ts'),
+        `
+        export function up(db) {
+          db.exec('CREATE TABLE lock_holder AS SELECT pid, hostname FROM schema_migrations_lock');
+        }
+        export function down(db) {}
+        `
+      );
+
+      await migrator.apply();
+
+      const holder = db.prepare('SELECT pid, hostname FROM lock_holder').get();
+      expect(holder).toEqual({ pid: process.pid, hostname: os.hostname() });
+
+      const lock = await migrator.getLockInfo();
+      expect(lock).toEqual({
+        locked: false,
+        pid: null,
+        hostname: null,
+        acquiredAt: null,
+        stale: false,
+      });
+    });
+
+    it('should report who holds the lock', async () => {
+      await migrator.status();
+      db.prepare(
+        'UPDATE schema_migrations_lock SET locked = 1, pid = 42, hostname = ?, acquired_at = ? WHERE id = 1'
+      ).run('deploy-1', '2025-01-22T12:00:00.000Z');
+
+      const lock = await migrator.getLockInfo();
+      expect(lock).toEqual({
+        locked: true,
+        pid: 42,
+        hostname: 'deploy-1',
+        acquiredAt: '2025-01-22T12:00:00.000Z',
+        stale: false,
+      });
+
+      const result = await migrator.apply();
+      expect(result.error).toBeInstanceOf(MigrationLockError);
+      expect(result.error?.message).toContain('pid 42 on deploy-1');
+    });
+
+    it('should take over stale locks', async () => {
+      const ttlMigrator = new Migrator({ db, migrationsDir, lockTtlMs: 60_000 });
+      await ttlMigrator.status();
+
+      const acquiredAt = new Date(Date.now() - 120_000).toISOString();
+      db.prepare(
+        'UPDATE schema_migrations_lock SET locked = 1, pid = 42, hostname = ?, acquired_at = ? WHERE id = 1'
+      ).run('deploy-1', acquiredAt);
+
+      expect((await ttlMigrator.getLockInfo()).stale).toBe(true);
+      // Without a TTL the lock never expires
+      expect((await migrator.getLockInfo()).stale).toBe(false);
+
+      const result = await ttlMigrator.apply();
+      expect(result.success).toBe(true);
+      expect((await ttlMigrator.getLockInfo()).locked).toBe(false);
+    });
+
+    it('should not release a lock that was taken over after it went stale', async () => {
+      let releaseSecond!: () => void;
+      let secondStarted!: () => void;
+      const secondHoldsLock = new Promise<void>((resolve) => (secondStarted = resolve));
+      const second = new Migrator({
+        db,
+        lockTtlMs: 20,
+        source: new MemoryMigrationSource([
+          {
+            name: '002_second.ts',
+            up: async (): Promise<void> => {
+              secondStarted();
+              await new Promise<void>((resolve) => (releaseSecond = resolve));
+            },
+            down: (): void => {},
+            transaction: false,
+          },
+        ]),
+      });
+
+      let secondResult!: Promise<MigrationResult>;
+      const warn = vi.fn();
+      const first = new Migrator({
+        db,
+        lockTtlMs: 20,
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+        source: new MemoryMigrationSource([
+          {
+            name: '001_first.ts',
+            up: async (): Promise<void> => {
+              // Outlive the TTL, so the second migrator takes over the lock
+              await sleep(50);
+              secondResult = second.apply();
+              await secondHoldsLock;
+            },
+            down: (): void => {},
+            transaction: false,
+          },
+        ]),
+      });
+      const releasedSpy = vi.fn();
+      first.on('lock:released', releasedSpy);
+
+      expect((await first.apply()).success).toBe(true);
+      expect(releasedSpy).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith(
+        'The migration lock went stale and was taken over by another process',
+        { heldMs: expect.any(Number) }
+      );
+      expect((await first.getLockInfo()).locked).toBe(true);
+
+      releaseSecond();
+      expect((await secondResult).success).toBe(true);
+      expect((await first.getLockInfo()).locked).toBe(false);
+    });
+
+    it('should force unlock a held lock', async () => {
+      await migrator.status();
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      expect((await migrator.apply()).success).toBe(false);
+
+      await migrator.forceUnlock();
+      expect((await migrator.getLockInfo()).locked).toBe(false);
+      expect((await migrator.apply()).success).toBe(true);
+    });
+
+    it('should upgrade lock tables without ownership columns', async () => {
+      db.exec(`
+        CREATE TABLE schema_migrations_lock (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          locked INTEGER NOT NULL DEFAULT 0
+        )
+      `);
+      db.exec('INSERT INTO schema_migrations_lock (id, locked) VALUES (1, 1)');
+
+      const lock = await migrator.getLockInfo();
+      expect(lock).toEqual({
+        locked: true,
+        pid: null,
+        hostname: null,
+        acquiredAt: null,
+        stale: false,
+      });
+    });
+  });
+
+  describe('lock waiting', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.ts'),
+        `
+        export async function up(db) {
+          db.exec('CREATE TABLE users (id INTEGER PRIMARY KEY)');
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        export function down(db) { db.exec('DROP TABLE users'); }
+        `
+      );
+    });
+
+    it('should wait for the lock to be released', async () => {
+      const waitingMigrator = new Migrator({
+        db,
+        migrationsDir,
+        lockTimeoutMs: 1000,
+        lockRetryIntervalMs: 10,
+      });
+      await waitingMigrator.status();
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      const [result] = await Promise.all([
+        waitingMigrator.apply(),
+        sleep(50).then(() => {
+          db.prepare('UPDATE schema_migrations_lock SET locked = 0 WHERE id = 1').run();
+        }),
+      ]);
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['001_users.ts']);
+    });
+
+    it('should become a no-op after another migrator applied the migrations', async () => {
+      const waitingMigrator = new Migrator({
+        db,
+        migrationsDir,
+        lockTimeoutMs: 1000,
+        lockRetryIntervalMs: 10,
+      });
+
+      const [first, second] = await Promise.all([migrator.apply(), waitingMigrator.apply()]);
+      expect(first).toEqual({ success: true, appliedMigrations: ['001_users.ts'] });
+      expect(second).toEqual({ success: true, appliedMigrations: [] });
+    });
+
+    it('should wait while another connection is writing to the database', async () => {
+      const dbPath = path.join(tempDir, 'busy.db');
+      const fileDb = new SQLiteDatabase(dbPath, { timeout: 0 });
+      const otherDb = new SQLiteDatabase(dbPath);
+      try {
+        // Another replica created the tables and is in the middle of a batch
+        await new Migrator({ db: otherDb, migrationsDir }).status();
+        otherDb.exec('BEGIN IMMEDIATE');
+
+        const waitingMigrator = new Migrator({
+          db: fileDb,
+          migrationsDir,
+          lockTimeoutMs: 1000,
+          lockRetryIntervalMs: 10,
+        });
+        const [result] = await Promise.all([
+          waitingMigrator.apply(),
+          sleep(50).then(() => otherDb.exec('COMMIT')),
+        ]);
+        expect(result.success).toBe(true);
+        expect(result.appliedMigrations).toEqual(['001_users.ts']);
+      } finally {
+        otherDb.close();
+        fileDb.close();
+      }
+    });
+
+    it('should wait to create the tables while another connection is writing', async () => {
+      const dbPath = path.join(tempDir, 'busy.db');
+      const fileDb = new SQLiteDatabase(dbPath, { timeout: 0 });
+      const otherDb = new SQLiteDatabase(dbPath);
+      try {
+        otherDb.exec('BEGIN IMMEDIATE');
+
+        const waitingMigrator = new Migrator({
+          db: fileDb,
+          migrationsDir,
+          lockTimeoutMs: 1000,
+          lockRetryIntervalMs: 10,
+        });
+        const [status] = await Promise.all([
+          waitingMigrator.status(),
+          sleep(50).then(() => otherDb.exec('COMMIT')),
+        ]);
+        expect(status.pending).toBe(1);
+      } finally {
+        otherDb.close();
+        fileDb.close();
+      }
+    });
+
+    it('should not wait longer than the lock timeout for another connection', async () => {
+      const dbPath = path.join(tempDir, 'busy.db');
+      const fileDb = new SQLiteDatabase(dbPath, { timeout: 1000 });
+      const otherDb = new SQLiteDatabase(dbPath);
+      try {
+        await new Migrator({ db: otherDb, migrationsDir }).status();
+        otherDb.exec('BEGIN IMMEDIATE');
+
+        const waitingMigrator = new Migrator({
+          db: fileDb,
+          migrationsDir,
+          lockTimeoutMs: 200,
+          lockRetryIntervalMs: 10,
+        });
+        const startedAt = Date.now();
+        const result = await waitingMigrator.apply();
+        const elapsed = Date.now() - startedAt;
+
+        expect(result.error).toBeInstanceOf(MigrationLockError);
+        expect(elapsed).toBeLessThan(700);
+        const waited = Number(/after waiting (\d+)ms/.exec(result.error!.message)?.[1]);
+        expect(waited).toBeGreaterThanOrEqual(200);
+        expect(waited).toBeLessThanOrEqual(elapsed);
+        expect(fileDb.pragma('busy_timeout', { simple: true })).toBe(1000);
+      } finally {
+        otherDb.exec('ROLLBACK');
+        otherDb.close();
+        fileDb.close();
+      }
+    });
+
+    it('should fail when the lock is not released in time', async () => {
+      const waitingMigrator = new Migrator({
+        db,
+        migrationsDir,
+        lockTimeoutMs: 50,
+        lockRetryIntervalMs: 10,
+      });
+      await waitingMigrator.status();
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      const result = await waitingMigrator.rollback();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationLockError);
+      expect(result.error?.message).toMatch(/after waiting \d+ms/);
+    });
+  });
+
+  describe('dry run', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);\n-- +down\nDROP TABLE users;\n'
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '002_seed.ts'),
+        `
+        export function up(db) {
+          const insert = db.prepare('INSERT INTO users (name) VALUES (?)');
+          insert.run('alice');
+          insert.run('bob');
+          db.pragma('user_version = 2');
+        }
+        export function down(db) { db.exec('DELETE FROM users'); }
+        `
+      );
+    });
+
+    it('should capture the sql of each migration without applying it', async () => {
+      const appliedSpy = vi.fn();
+      migrator.on('migration:applied', appliedSpy);
+
+      const result = await migrator.apply({ dryRun: true });
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual([]);
+      expect(result.capturedSql).toEqual([
+        {
+          name: '001_users.sql',
+          statements: ['CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);'],
+        },
+        {
+          name: '002_seed.ts',
+          statements: [
+            'INSERT INTO users (name) VALUES (?)',
+            'INSERT INTO users (name) VALUES (?)',
+            'PRAGMA user_version = 2',
+          ],
+        },
+      ]);
+      expect(appliedSpy).not.toHaveBeenCalled();
+
+      const table = db
+        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='users'")
+        .get();
+      expect(table).toBeUndefined();
+      expect(db.pragma('user_version', { simple: true })).toBe(0);
+
+      const status = await migrator.status();
+      expect(status.pending).toBe(2);
+    });
+
+    it('should capture statements executed through chained statement methods', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '003_chained.ts'),
+        `
+        export function up(db) {
+          db.prepare('INSERT INTO users (name) VALUES (?)').bind('carol').run();
+          db.prepare('SELECT count(*) FROM users').pluck().get();
+          db.prepare('SELECT id, name FROM users').raw().all();
+          db.prepare('SELECT * FROM users').expand().all();
+          db.prepare('SELECT id FROM users').safeIntegers().pluck(false).all();
+        }
+        export function down(db) {}
+        `
+      );
+
+      const result = await migrator.apply({ dryRun: true });
+      expect(result.capturedSql?.[2]).toEqual({
+        name: '003_chained.ts',
+        statements: [
+          'INSERT INTO users (name) VALUES (?)',
+          'SELECT count(*) FROM users',
+          'SELECT id, name FROM users',
+          'SELECT * FROM users',
+          'SELECT id FROM users',
+        ],
+      });
+    });
+
+    it('should respect the target and skip migrations without transaction', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '000_vacuum.sql'),
+        '-- +no-transaction\n-- +up\nVACUUM;\n'
+      );
+
+      const result = await migrator.apply({ dryRun: true, to: '001_users.sql' });
+      expect(result.capturedSql).toEqual([
+        { name: '000_vacuum.sql', statements: [], skipped: true },
+        {
+          name: '001_users.sql',
+          statements: ['CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);'],
+        },
+      ]);
+    });
+
+    it('should report the migration that fails during a dry run', async () => {
+      await fs.writeFile(path.join(migrationsDir, '003_fail.sql'), '-- +up\nINVALID SQL;\n');
+
+      const result = await migrator.apply({ dryRun: true });
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationExecutionError);
+      expect(result.failedMigration).toBe('003_fail.sql');
+      expect(result.capturedSql?.map((m) => m.name)).toEqual([
+        '001_users.sql',
+        '002_seed.ts',
+        '003_fail.sql',
+      ]);
+      expect(db.inTransaction).toBe(false);
+    });
+  });
+
+  describe('schema dump', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.ts'),
+        `
+        export function up(db) {
+          db.exec(\`
+            CREATE TABLE users (
+              id INTEGER PRIMARY KEY,
+              email TEXT NOT NULL
+            )   \`);
+          db.exec('CREATE VIEW user_emails AS SELECT email FROM users');
+          db.exec('CREATE UNIQUE INDEX users_email ON users (email)');
+        }
+        export function down(db) { db.exec('DROP VIEW user_emails; DROP TABLE users'); }
+        `
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '002_audit.sql'),
+        '-- +up\nCREATE TABLE audit (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER);\n' +
+          'CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN INSERT INTO audit (user_id) VALUES (new.id); END;\n' +
+          '-- +down\nDROP TRIGGER users_audit;\nDROP TABLE audit;\n'
+      );
+    });
+
+    it('should dump the schema sorted and normalized', async () => {
+      await migrator.apply();
+
+      expect(await migrator.dumpSchema()).toBe(
+        [
+          'CREATE TABLE audit (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER);',
+          'CREATE TABLE users (\n  id INTEGER PRIMARY KEY,\n  email TEXT NOT NULL\n);',
+          'CREATE UNIQUE INDEX users_email ON users (email);',
+          'CREATE VIEW user_emails AS SELECT email FROM users;',
+          'CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN INSERT INTO audit (user_id) VALUES (new.id); END;',
+        ].join('\n\n') + '\n'
+      );
+    });
+
+    it('should rewrite the schema file after apply and rollback', async () => {
+      const schemaFile = path.join(tempDir, 'schema.sql');
+      migrator = new Migrator({ db, migrationsDir, schemaFile });
+
+      await migrator.apply({ dryRun: true });
+      await expect(fs.access(schemaFile)).rejects.toThrow();
+
+      await migrator.apply({ to: '001_users.ts' });
+      const afterApply = await fs.readFile(schemaFile, 'utf8');
+      expect(afterApply).toContain('CREATE TABLE users');
+      expect(afterApply).not.toContain('schema_migrations');
+
+      await migrator.apply();
+      expect(await fs.readFile(schemaFile, 'utf8')).toContain('CREATE TABLE audit');
+
+      await migrator.rollback();
+      expect(await fs.readFile(schemaFile, 'utf8')).toBe(afterApply);
+    });
+
+    it('should fail when the schema file cannot be written', async () => {
+      const schemaFile = path.join(tempDir, 'missing', 'schema.sql');
+      migrator = new Migrator({ db, migrationsDir, schemaFile });
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationFileError);
+      expect(result.appliedMigrations).toEqual(['001_users.ts', '002_audit.sql']);
+    });
+  });
+
+  describe('reversibility', () => {
+    beforeEach(async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);\n-- +down\nDROP TABLE users;\n'
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '002_index.sql'),
+        '-- +up\nCREATE INDEX IF NOT EXISTS users_email ON users (email);\n-- +down\nSELECT 1;\n'
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '003_posts.sql'),
+        '-- +up\nCREATE TABLE posts (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE posts;\n'
+      );
+    });
+
+    it('should report migrations whose down does not restore the schema', async () => {
+      const report = await migrator.verifyReversibility();
+      expect(report.success).toBe(false);
+      expect(report.migrations).toEqual([
+        { name: '001_users.sql', reversible: true },
+        {
+          name: '002_index.sql',
+          reversible: false,
+          expectedSchema: 'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);\n',
+          actualSchema:
+            'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);\n\n' +
+            'CREATE INDEX users_email ON users (email);\n',
+        },
+        { name: '003_posts.sql', reversible: true },
+      ]);
+    });
+
+    it('should not modify the database', async () => {
+      await migrator.apply({ to: '001_users.sql' });
+
+      const report = await migrator.verifyReversibility();
+      expect(report.migrations.map((m) => m.name)).toEqual(['002_index.sql', '003_posts.sql']);
+
+      const status = await migrator.status();
+      expect(status.applied.map((r) => r.name)).toEqual(['001_users.sql']);
+      expect(await migrator.dumpSchema()).not.toContain('posts');
+    });
+
+    it('should report migrations that fail to revert or re-apply', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '002_index.sql'),
+        '-- +up\nCREATE INDEX users_email ON users (email);\n-- +down\nDROP INDEX missing;\n'
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '004_broken.sql'),
+        '-- +up\nCREATE TABLE counters (id INTEGER PRIMARY KEY);\n-- +down\nSELECT 1;\n'
+      );
+      await fs.writeFile(
+        path.join(migrationsDir, '005_never.sql'),
+        '-- +up\nCREATE TABLE never (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE never;\n'
+      );
+
+      const report = await migrator.verifyReversibility();
+      expect(report.success).toBe(false);
+      expect(report.migrations.map((m) => [m.name, m.reversible])).toEqual([
+        ['001_users.sql', true],
+        ['002_index.sql', false],
+        ['003_posts.sql', true],
+        ['004_broken.sql', false],
+      ]);
+      expect(report.migrations[1]!.error).toBeInstanceOf(MigrationExecutionError);
+      expect(report.migrations[3]!.error).toBeInstanceOf(MigrationExecutionError);
+    });
+
+    it('should verify a database file in WAL mode', async () => {
+      const fileDb = new SQLiteDatabase(path.join(tempDir, 'wal.db'));
+      fileDb.pragma('journal_mode = WAL');
+      try {
+        const fileMigrator = new Migrator({ db: fileDb, migrationsDir });
+        await fileMigrator.apply({ to: '001_users.sql' });
+
+        const report = await fileMigrator.verifyReversibility();
+        expect(report.migrations.map((m) => [m.name, m.reversible])).toEqual([
+          ['002_index.sql', false],
+          ['003_posts.sql', true],
+        ]);
+        expect(report.migrations[0]!.error).toBeUndefined();
+        expect((await fileMigrator.status()).applied).toHaveLength(1);
+      } finally {
+        fileDb.close();
+      }
+    });
+  });
+
+  describe('backups', () => {
+    let fileDb: Database;
+    let backupDir: string;
+
+    beforeEach(async () => {
+      fileDb = new SQLiteDatabase(path.join(tempDir, 'app.db'));
+      backupDir = path.join(tempDir, 'backups');
+      migrator = new Migrator({ db: fileDb, migrationsDir, backup: { dir: backupDir, keep: 2 } });
+
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        "-- +up\nCREATE TABLE users (name TEXT);\nINSERT INTO users VALUES ('alice');\n-- +down\nDROP TABLE users;\n"
+      );
+    });
+
+    afterEach(() => {
+      fileDb.close();
+    });
+
+    it('should back up the database before each batch and keep the most recent backups', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '002_posts.sql'),
+        '-- +up\nCREATE TABLE posts (id INTEGER);\n-- +down\nDROP TABLE posts;\n'
+      );
+
+      const first = await migrator.apply({ to: '001_users.sql' });
+      expect(first.backupId).toMatch(/^\d{17}$/);
+
+      const second = await migrator.apply();
+      const third = await migrator.rollback();
+      expect(third.backupId).toBeDefined();
+
+      // Nothing to apply, so no backup is taken
+      expect((await migrator.apply({ to: '001_users.sql' })).backupId).toBeUndefined();
+
+      const backups = await migrator.listBackups();
+      expect(backups.map((b) => b.id)).toEqual([third.backupId, second.backupId]);
+      expect(backups[0]!.path).toBe(path.join(backupDir, `${third.backupId}.db`));
+      expect(new Date(backups[0]!.createdAt).getTime()).not.toBeNaN();
+    });
+
+    it('should restore the database from a backup', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '002_cleanup.ts'),
+        `
+        export const transaction = false;
+        export function up(db) {
+          db.exec('DELETE FROM users');
+          throw new Error('Something went wrong');
+        }
+        export function down() {}
+        `
+      );
+      await migrator.apply({ to: '001_users.sql' });
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(fileDb.prepare('SELECT COUNT(*) AS count FROM users').get()).toEqual({ count: 0 });
+
+      await migrator.restoreBackup(result.backupId!);
+      expect(fileDb.prepare('SELECT name FROM users').all()).toEqual([{ name: 'alice' }]);
+      expect((await migrator.status()).applied.map((r) => r.name)).toEqual(['001_users.sql']);
+      expect((await migrator.getLockInfo()).locked).toBe(false);
+    });
+
+    it('should reject unknown backups and databases without backups', async () => {
+      await expect(migrator.restoreBackup('20250101000000000')).rejects.toThrow(
+        MigrationBackupError
+      );
+      await expect(migrator.restoreBackup('../app')).rejects.toThrow('Invalid backup id');
+
+      const withoutBackups = new Migrator({ db, migrationsDir });
+      await expect(withoutBackups.listBackups()).rejects.toThrow('Backups are not enabled');
+    });
+
+    it('should reject a number of backups to keep that is not a positive integer', () => {
+      for (const keep of [0, -1, 1.5, NaN]) {
+        expect(() => new Migrator({ db, migrationsDir, backup: { dir: backupDir, keep } })).toThrow(
+          `Invalid number of backups to keep: ${keep}, use a positive integer.`
+        );
+      }
+    });
+  });
+
+  describe('logging', () => {
+    let messages: [keyof Logger, string, Record<string, unknown> | undefined][];
+
+    beforeEach(async () => {
+      messages = [];
+      const logger: Logger = {
+        debug: (message, context) => messages.push(['debug', message, context]),
+        info: (message, context) => messages.push(['info', message, context]),
+        warn: (message, context) => messages.push(['warn', message, context]),
+        error: (message, context) => messages.push(['error', message, context]),
+      };
+      migrator = new Migrator({ db, migrationsDir, logger });
+
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE users;\n'
+      );
+    });
+
+    it('should log loading, locking and each migration', async () => {
+      await migrator.apply();
+
+      expect(messages).toEqual([
+        [
+          'debug',
+          'Upgraded the migration tables to version 5',
+          { upgrades: expect.arrayContaining(['Create the migrations and lock tables']) },
+        ],
+        ['debug', 'Loaded 1 migration(s)', { migrations: ['001_users.sql'] }],
+        ['debug', 'Acquired the migration lock', { waitedMs: expect.any(Number) }],
+        ['info', 'Applying migration "001_users.sql"', { batch: 1 }],
+        ['info', 'Applied migration "001_users.sql"', { batch: 1, durationMs: expect.any(Number) }],
+        ['debug', 'Released the migration lock', { heldMs: expect.any(Number) }],
+      ]);
+    });
+
+    it('should log errors', async () => {
+      await fs.writeFile(path.join(migrationsDir, '002_broken.sql'), '-- +up\nINVALID SQL;\n');
+      await migrator.apply();
+
+      expect(messages).toContainEqual([
+        'error',
+        'Failed to apply migration "002_broken.sql"',
+        { migration: '002_broken.sql', error: expect.any(Error) },
+      ]);
+
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+      await migrator.rollback();
+      expect(messages).toContainEqual([
+        'error',
+        'Migration lock already held by another process.',
+        undefined,
+      ]);
+    });
+
+    it('should write to the console with the console logger', async () => {
+      const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      try {
+        consoleLogger.info('Applied migration "001_users.sql"', { batch: 1 });
+        expect(info).toHaveBeenCalledWith('[sqlite-up] Applied migration "001_users.sql"', {
+          batch: 1,
+        });
+      } finally {
+        info.mockRestore();
+      }
+    });
+  });
+
+  describe('metadata versioning', () => {
+    const columns = (table: string): string[] =>
+      (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+    const version = (): unknown =>
+      db.prepare("SELECT value FROM schema_migrations_meta WHERE key = 'version'").pluck().get();
+
+    it('should record the metadata version when creating the tables', async () => {
+      await migrator.status();
+
+      expect(version()).toBe('5');
+      expect(columns('schema_migrations')).toEqual([
+        'name',
+        'executed_at',
+        'batch',
+        'checksum',
+        'duration_ms',
+      ]);
+      expect(columns('schema_migrations_lock')).toEqual([
+        'id',
+        'locked',
+        'pid',
+        'hostname',
+        'acquired_at',
+      ]);
+      expect(columns('schema_migrations_seeds')).toEqual(['name', 'executed_at', 'checksum']);
+    });
+
+    it('should only run the upgrades newer than the recorded version', async () => {
+      db.exec(`
+        CREATE TABLE schema_migrations (name TEXT PRIMARY KEY, executed_at TEXT NOT NULL, batch INTEGER NOT NULL, checksum TEXT);
+        CREATE TABLE schema_migrations_lock (id INTEGER PRIMARY KEY, locked INTEGER NOT NULL DEFAULT 0);
+        INSERT INTO schema_migrations_lock (id, locked) VALUES (1, 0);
+        CREATE TABLE schema_migrations_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+        INSERT INTO schema_migrations_meta VALUES ('version', '2');
+      `);
+
+      const upgrades = vi.fn();
+      migrator = new Migrator({
+        db,
+        migrationsDir,
+        logger: { debug: upgrades, info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      });
+      await migrator.status();
+
+      expect(version()).toBe('5');
+      expect(upgrades).toHaveBeenCalledWith('Upgraded the migration tables to version 5', {
+        upgrades: [
+          'Track the process holding the lock',
+          'Track the duration of applied migrations',
+          'Create the seeds table',
+        ],
+      });
+      expect(columns('schema_migrations')).toContain('duration_ms');
+      expect(columns('schema_migrations_lock')).toContain('acquired_at');
+    });
+
+    it('should refuse tables created by a newer version', async () => {
+      db.exec(`
+        CREATE TABLE schema_migrations_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+        INSERT INTO schema_migrations_meta VALUES ('version', '99');
+      `);
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationError);
+      expect(result.error?.message).toContain('newer version of sqlite-up');
+    });
+
+    it('should create tables that are missing from an up to date database', async () => {
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY);\n-- +down\nDROP TABLE users;\n'
+      );
+      await migrator.apply();
+
+      const otherLock = new Migrator({ db, migrationsDir, migrationsLockTable: 'app_lock' });
+      const result = await otherLock.rollback();
+      expect(result).toEqual({ success: true, appliedMigrations: ['001_users.sql'] });
+      expect(columns('app_lock')).toEqual(['id', 'locked', 'pid', 'hostname', 'acquired_at']);
+      expect(version()).toBe('5');
+    });
+  });
+
+  describe('validate', () => {
+    const migration = (name: string): { name: string; up: () => void; down: () => void } => ({
+      name,
+      up: (): void => undefined,
+      down: (): void => undefined,
+    });
+
+    it('should report a valid state', async () => {
+      migrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource([migration('001_users'), migration('002_posts')]),
+      });
+      await migrator.apply({ to: '001_users' });
+
+      expect(await migrator.validate()).toEqual({
+        valid: true,
+        missing: [],
+        outOfOrder: [],
+        duplicates: [],
+      });
+    });
+
+    it('should report missing, out of order and duplicate migrations', async () => {
+      migrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource([migration('001_users.ts'), migration('003_tags.ts')]),
+      });
+      await migrator.apply();
+
+      migrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource([
+          migration('002_posts.ts'),
+          migration('003_tags.ts'),
+          migration('004_comments.js'),
+          migration('004_comments.ts'),
+        ]),
+      });
+
+      expect(await migrator.validate()).toEqual({
+        valid: false,
+        missing: ['001_users.ts'],
+        outOfOrder: ['002_posts.ts'],
+        duplicates: ['004_comments.js', '004_comments.ts'],
+      });
+    });
+
+    it('should not count applied migrations without a file as pending', async () => {
+      migrator = new Migrator({
+        db,
+        source: new MemoryMigrationSource([migration('001_users'), migration('002_posts')]),
+      });
+      await migrator.apply();
+
+      migrator = new Migrator({ db, source: new MemoryMigrationSource([migration('003_tags')]) });
+      expect((await migrator.status()).pending).toBe(1);
+    });
+  });
+
+  describe('out of order migrations', () => {
+    beforeEach(async () => {
+      await writeTableMigrations(['001_users', '003_comments'], 'sql');
+      await migrator.apply();
+
+      await writeTableMigrations(['002_posts', '004_tags'], 'sql');
+    });
+
+    it('should apply out of order migrations by default', async () => {
+      migrator = new Migrator({ db, migrationsDir });
+
+      const result = await migrator.apply();
+      expect(result).toEqual({
+        success: true,
+        appliedMigrations: ['002_posts.sql', '004_tags.sql'],
+      });
+    });
+
+    it('should report out of order migrations with the warn policy', async () => {
+      const warn = vi.fn();
+      migrator = new Migrator({
+        db,
+        migrationsDir,
+        outOfOrder: 'warn',
+        logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+      });
+
+      expect((await migrator.plan()).outOfOrderMigrations).toEqual(['002_posts.sql']);
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(true);
+      expect(result.appliedMigrations).toEqual(['002_posts.sql', '004_tags.sql']);
+      expect(result.outOfOrderMigrations).toEqual(['002_posts.sql']);
+      expect(warn).toHaveBeenCalledWith(
+        'Migration "002_posts.sql" sorts before already applied migrations'
+      );
+    });
+
+    it('should reject unknown policies', () => {
+      expect(
+        () => new Migrator({ db, migrationsDir, outOfOrder: 'erorr' as OutOfOrderPolicy })
+      ).toThrow('Unsupported out of order policy "erorr", use allow, warn or error.');
+    });
+
+    it('should refuse out of order migrations with the error policy', async () => {
+      migrator = new Migrator({ db, migrationsDir, outOfOrder: 'error' });
+
+      await expect(migrator.plan()).rejects.toThrow(MigrationOrderError);
+
+      const result = await migrator.apply();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationOrderError);
+      expect((result.error as MigrationOrderError).migrations).toEqual(['002_posts.sql']);
+      expect(result.outOfOrderMigrations).toEqual(['002_posts.sql']);
+      expect(result.appliedMigrations).toEqual([]);
+
+      // Nothing was applied, so the next attempt fails the same way
+      expect((await migrator.apply({ steps: 1 })).error).toBeInstanceOf(MigrationOrderError);
+    });
+  });
+
+  describe('baseline', () => {
+    beforeEach(async () => {
+      // The database was created by hand before adopting migrations
+      db.exec(
+        'CREATE TABLE users (id INTEGER PRIMARY KEY); CREATE TABLE posts (id INTEGER PRIMARY KEY);'
+      );
+
+      await writeTableMigrations(['001_users', '002_posts', '003_tags'], 'sql');
+    });
+
+    it('should record migrations up to the target without running them', async () => {
+      const appliedSpy = vi.fn();
+      migrator.on('migration:applied', appliedSpy);
+
+      const result = await migrator.baseline({ to: '002_posts.sql' });
+      expect(result).toEqual({
+        success: true,
+        appliedMigrations: ['001_users.sql', '002_posts.sql'],
+      });
+      expect(appliedSpy).not.toHaveBeenCalled();
+
+      const status = await migrator.status();
+      expect(status.applied.map((r) => [r.name, r.batch])).toEqual([
+        ['001_users.sql', 0],
+        ['002_posts.sql', 0],
+      ]);
+
+      expect(await migrator.apply()).toEqual({
+        success: true,
+        appliedMigrations: ['003_tags.sql'],
+      });
+      expect((await migrator.status()).currentBatch).toBe(1);
+    });
+
+    it('should never roll back baselined migrations', async () => {
+      await migrator.baseline({ to: '002_posts.sql' });
+      await migrator.apply();
+
+      expect((await migrator.rollback({ to: '001_users.sql' })).appliedMigrations).toEqual([
+        '003_tags.sql',
+      ]);
+      await migrator.apply();
+      expect((await migrator.rollback({ batches: 5 })).appliedMigrations).toEqual(['003_tags.sql']);
+      expect((await migrator.reset()).appliedMigrations).toEqual([]);
+
+      const tables = db.prepare("SELECT name FROM sqlite_master WHERE name = 'users'").all();
+      expect(tables).toHaveLength(1);
+    });
+
+    it('should refuse to baseline a database with applied migrations', async () => {
+      await migrator.baseline({ to: '001_users.sql' });
+
+      const result = await migrator.baseline({ to: '002_posts.sql' });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('already has applied migrations');
+
+      const unknown = await new Migrator({
+        db: new SQLiteDatabase(':memory:'),
+        migrationsDir,
+      }).baseline({
+        to: '999_missing.sql',
+      });
+      expect(unknown.error?.message).toBe('Target migration "999_missing.sql" not found.');
+    });
+  });
+
+  describe('marking migrations', () => {
+    beforeEach(async () => {
+      await writeTableMigrations(['001_users', '002_posts'], 'sql');
+    });
+
+    it('should mark a migration as applied without running it', async () => {
+      await migrator.apply({ to: '001_users.sql' });
+
+      const markedSpy = vi.fn();
+      const appliedSpy = vi.fn();
+      migrator.on('migration:marked-applied', markedSpy);
+      migrator.on('migration:applied', appliedSpy);
+
+      expect(await migrator.markApplied('002_posts.sql')).toEqual({
+        success: true,
+        appliedMigrations: ['002_posts.sql'],
+      });
+      expect(markedSpy).toHaveBeenCalledWith('002_posts.sql', 2);
+      expect(appliedSpy).not.toHaveBeenCalled();
+
+      const status = await migrator.status();
+      expect(status.pending).toBe(0);
+      expect(status.applied[1]).toMatchObject({
+        name: '002_posts.sql',
+        batch: 2,
+        duration_ms: null,
+      });
+      expect(
+        db.prepare("SELECT name FROM sqlite_master WHERE name = 'posts'").get()
+      ).toBeUndefined();
+    });
+
+    it('should mark a migration as unapplied without running its down', async () => {
+      await migrator.apply();
+
+      const markedSpy = vi.fn();
+      migrator.on('migration:marked-unapplied', markedSpy);
+
+      const result = await migrator.markUnapplied('001_users.sql');
+      expect(result.success).toBe(true);
+      expect(markedSpy).toHaveBeenCalledWith('001_users.sql', 1);
+
+      expect((await migrator.plan()).pendingMigrations).toEqual(['001_users.sql']);
+      expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'users'").get()).toBeDefined();
+    });
+
+    it('should refuse to mark unknown or already marked migrations', async () => {
+      await migrator.apply({ to: '001_users.sql' });
+
+      expect((await migrator.markApplied('001_users.sql')).error?.message).toBe(
+        'Migration "001_users.sql" has already been applied.'
+      );
+      expect((await migrator.markApplied('003_missing.sql')).error).toBeInstanceOf(
+        MigrationFileError
+      );
+      expect((await migrator.markUnapplied('002_posts.sql')).error?.message).toBe(
+        'Migration "002_posts.sql" has not been applied.'
+      );
+    });
+
+    it('should respect the lock', async () => {
+      await migrator.status();
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      const result = await migrator.markApplied('001_users.sql');
+      expect(result.error).toBeInstanceOf(MigrationLockError);
+      expect((await migrator.status()).applied).toEqual([]);
+    });
+  });
+
+  describe('seeds', () => {
+    let seedsDir: string;
+
+    const users = (): string[] =>
+      db.prepare('SELECT name FROM users ORDER BY id').pluck().all() as string[];
+
+    beforeEach(async () => {
+      seedsDir = path.join(tempDir, 'seeds');
+      await fs.mkdir(seedsDir);
+
+      await fs.writeFile(
+        path.join(migrationsDir, '001_users.sql'),
+        '-- +up\nCREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT UNIQUE);\n-- +down\nDROP TABLE users;\n'
+      );
+      await fs.writeFile(
+        path.join(seedsDir, '001_admin.sql'),
+        "INSERT INTO users (name) VALUES ('admin');\n"
+      );
+      await fs.writeFile(
+        path.join(seedsDir, '002_demo.ts'),
+        `
+        export const env = ['development', 'test'];
+        export async function seed(db) {
+          db.prepare("INSERT INTO users (name) VALUES ('demo')").run();
+        }
+      `
+      );
+      await fs.writeFile(
+        path.join(seedsDir, '003_guest.sql'),
+        "-- +rerunnable\nINSERT OR REPLACE INTO users (id, name) VALUES (100, 'guest');\n"
+      );
+
+      migrator = new Migrator({ db, migrationsDir, seedsDir });
+      await migrator.apply();
+    });
+
+    it('should run seeds once and track them separately from migrations', async () => {
+      expect(await migrator.seed({ env: 'development' })).toEqual({
+        success: true,
+        seeded: ['001_admin.sql', '002_demo.ts', '003_guest.sql'],
+        skipped: [],
+      });
+      expect(users()).toEqual(['admin', 'demo', 'guest']);
+
+      // Only re-runnable seeds run again
+      expect(await migrator.seed({ env: 'development' })).toEqual({
+        success: true,
+        seeded: ['003_guest.sql'],
+        skipped: ['001_admin.sql', '002_demo.ts'],
+      });
+      expect(users()).toEqual(['admin', 'demo', 'guest']);
+
+      const seeded = db.prepare('SELECT name FROM schema_migrations_seeds ORDER BY name').pluck();
+      expect(seeded.all()).toHaveLength(3);
+      expect((await migrator.status()).applied).toHaveLength(1);
+    });
+
+    it('should skip seeds restricted to other environments', async () => {
+      const result = await migrator.seed({ env: 'production' });
+      expect(result.seeded).toEqual(['001_admin.sql', '003_guest.sql']);
+      expect(result.skipped).toEqual(['002_demo.ts']);
+
+      expect((await migrator.seed()).skipped).toContain('002_demo.ts');
+      expect(users()).toEqual(['admin', 'guest']);
+    });
+
+    it('should only run the selected seeds', async () => {
+      const result = await migrator.seed({ only: ['003_guest.sql'] });
+      expect(result.seeded).toEqual(['003_guest.sql']);
+      expect(users()).toEqual(['guest']);
+
+      const missing = await migrator.seed({ only: ['004_missing.sql'] });
+      expect(missing.success).toBe(false);
+      expect(missing.error?.message).toBe('Seed "004_missing.sql" not found.');
+    });
+
+    it('should roll back all seeds when one fails', async () => {
+      await fs.writeFile(
+        path.join(seedsDir, '004_broken.sql'),
+        "INSERT INTO users (name) VALUES ('admin');\n"
+      );
+
+      const result = await migrator.seed();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationExecutionError);
+      expect(result.error?.message).toBe('Failed to run seed "004_broken.sql"');
+      expect(result.failedSeed).toBe('004_broken.sql');
+
+      expect(users()).toEqual([]);
+      expect(db.prepare('SELECT COUNT(*) FROM schema_migrations_seeds').pluck().get()).toBe(0);
+    });
+
+    it('should reject seed modules without a seed function', async () => {
+      await fs.writeFile(path.join(seedsDir, '004_invalid.ts'), 'export const env = "test";\n');
+
+      const result = await migrator.seed();
+      expect(result.error).toBeInstanceOf(MigrationFileError);
+      expect(result.error?.message).toBe('Seed "004_invalid.ts" must export a "seed" function.');
+    });
+
+    it('should respect the lock', async () => {
+      db.prepare('UPDATE schema_migrations_lock SET locked = 1 WHERE id = 1').run();
+
+      const result = await migrator.seed();
+      expect(result.error).toBeInstanceOf(MigrationLockError);
+      expect(users()).toEqual([]);
+    });
+
+    it('should require a seeds directory', async () => {
+      const result = await new Migrator({ db, migrationsDir }).seed();
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MigrationError);
+      expect(result.error?.message).toContain('Seeding requires a seeds directory');
+    });
+  });
 });
@@ -1,23 +1,134 @@
+import os from 'os';
 import path from 'path';
+import process from 'process';
+import { setTimeout as sleep } from 'timers/promises';
 import { promises as fs } from 'fs';
 import { EventEmitter } from 'events';
 
-import { Database } from 'better-sqlite3';
+import SQLiteDatabase, { Database } from 'better-sqlite3';
 
 import {
+  ApplyOptions,
+  BackupInfo,
+  BaselineOptions,
+  BackupOptions,
+  CapturedMigration,
+  CreateMigrationOptions,
+  LockInfo,
+  Logger,
   Migration,
+  MigrationFormat,
   MigrationPlan,
+  MigrationTarget,
   MigrationRecord,
   MigrationResult,
   MigratorOptions,
   MigrationStatus,
+  MigrationSource,
+  MigrationModule,
+  MigrationDirection,
+  MigratorEvents,
+  BatchStartEvent,
+  BatchEndEvent,
+  MigrationStartEvent,
+  MigrationFailedEvent,
+  RollbackOptions,
+  ReversibilityCheck,
+  SeedModule,
+  SeedOptions,
+  SeedResult,
+  ReversibilityReport,
+  TransactionMode,
+  OutOfOrderPolicy,
+  ValidationReport,
 } from './types';
 import {
+  MigrationChecksumError,
   MigrationExecutionError,
   MigrationFileError,
   MigrationLockError,
+  MigrationOrderError,
   MigrationError,
 } from './errors.js';
+import { DirectoryMigrationSource, MemoryMigrationSource } from './sources.js';
+import { MIGRATION_TEMPLATES } from './templates.js';
+import { captureDatabase } from './capture.js';
+import { dumpSchema } from './schema.js';
+import { createBackup, listBackups, restoreBackup } from './backup.js';
+import { consoleLogger, noopLogger } from './logger.js';
+import { METADATA_VERSION, upgradeMetadata } from './metadata.js';
+import { loadSeeds, Seed } from './seeds.js';
+
+/**
+ * Batch of migrations recorded by `baseline()`, their `up` never ran so they are never rolled back.
+ */
+const BASELINE_BATCH = 0;
+
+/**
+ * Accepted values of the `transactionMode` option.
+ */
+const TRANSACTION_MODES: TransactionMode[] = ['batch', 'migration'];
+
+/**
+ * Accepted values of the `outOfOrder` option.
+ */
+const OUT_OF_ORDER_POLICIES: OutOfOrderPolicy[] = ['allow', 'warn', 'error'];
+
+/**
+ * Check if a migration function returned a promise.
+ */
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as Promise<unknown> | undefined)?.then === 'function';
+}
+
+/**
+ * Check if an error was caused by another connection writing to the database.
+ */
+function isBusy(err: unknown): boolean {
+  return (err as { code?: string } | undefined)?.code?.startsWith('SQLITE_BUSY') ?? false;
+}
+
+/**
+ * An applied migration as read from the migrations table.
+ */
+type AppliedMigrationRow = Pick<MigrationRecord, 'name' | 'batch'>;
+
+/**
+ * A migration to apply or revert, with the batch it belongs to.
+ */
+interface MigrationStep {
+  migration: Migration;
+  batch: number;
+}
+
+/**
+ * Tracks which migrations were committed while running migrations, and which one is running.
+ */
+interface MigrationProgress {
+  committed: string[];
+  current?: string;
+}
+
+/**
+ * Split migration steps into groups of consecutive steps that either all run in a transaction or all opt out of it.
+ * In the `migration` transaction mode every migration gets its own group.
+ */
+function groupByTransaction(
+  steps: MigrationStep[],
+  mode: TransactionMode
+): { transaction: boolean; steps: MigrationStep[] }[] {
+  const groups: { transaction: boolean; steps: MigrationStep[] }[] = [];
+  for (const step of steps) {
+    const transaction = step.migration.transaction !== false;
+    const last = groups[groups.length - 1];
+    if (last && last.transaction === transaction && mode === 'batch') {
+      last.steps.push(step);
+    } else {
+      groups.push({ transaction, steps: [step] });
+    }
+  }
+  return groups;
+}
 
 /**
  * Migration provider for SQLite databases.
@@ -26,28 +137,79 @@ import {
  * const migrator = new Migrator({ db, migrationsDir: 'migrations' });
  * await migrator.apply();
  */
-export class Migrator extends EventEmitter {
+export class Migrator extends EventEmitter<MigratorEvents> {
   private db: Database;
-  private migrationsDir: string;
+  private source: MigrationSource;
   private migrationsTable: string;
   private lockTable: string;
+  private metaTable: string;
+  private seedsTable: string;
+  private seedsDir?: string;
+  private fileExtensions: string[];
   private migrations: Migration[] = [];
   private initialized = false;
-  private fileExtensions: string[];
+  private inOuterTransaction = false;
+  private validateChecksums: boolean;
+  private transactionMode: TransactionMode;
+  private outOfOrder: OutOfOrderPolicy;
+  private lockTtlMs?: number;
+  private lockTimeoutMs: number;
+  private lockRetryIntervalMs: number;
+  private schemaFile?: string;
+  private backup?: Required<BackupOptions>;
+  private lockAcquiredAt?: string;
+  private logger: Logger;
 
   constructor(options: MigratorOptions) {
     super();
 
+    if (options.source) {
+      this.source = options.source;
+    } else if (options.migrationsDir !== undefined) {
+      this.source = new DirectoryMigrationSource(options.migrationsDir, {
+        fileExtensions: options.fileExtensions,
+      });
+    } else {
+      throw new MigrationError('Either "migrationsDir" or "source" must be provided.');
+    }
+
     this.db = options.db;
-    this.migrationsDir = options.migrationsDir;
     this.migrationsTable = options.migrationsTable ?? 'schema_migrations';
     this.lockTable = options.migrationsLockTable ?? 'schema_migrations_lock';
-    this.fileExtensions = options.fileExtensions ?? ['ts', 'js'];
+    this.metaTable = `${this.migrationsTable}_meta`;
+    this.seedsTable = `${this.migrationsTable}_seeds`;
+    this.seedsDir = options.seedsDir;
+    this.fileExtensions = options.fileExtensions ?? ['ts', 'js', 'sql'];
+    this.validateChecksums = options.validateChecksums ?? false;
+    this.transactionMode = options.transactionMode ?? 'batch';
+    if (!TRANSACTION_MODES.includes(this.transactionMode)) {
+      throw new MigrationError(
+        `Unsupported transaction mode "${this.transactionMode}", use batch or migration.`
+      );
+    }
+    this.outOfOrder = options.outOfOrder ?? 'allow';
+    if (!OUT_OF_ORDER_POLICIES.includes(this.outOfOrder)) {
+      throw new MigrationError(
+        `Unsupported out of order policy "${this.outOfOrder}", use allow, warn or error.`
+      );
+    }
+    this.lockTtlMs = options.lockTtlMs;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 0;
+    this.lockRetryIntervalMs = options.lockRetryIntervalMs ?? 100;
+    this.schemaFile = options.schemaFile;
+    this.backup = options.backup && { keep: 5, ...options.backup };
+    if (this.backup && !(Number.isInteger(this.backup.keep) && this.backup.keep > 0)) {
+      throw new MigrationError(
+        `Invalid number of backups to keep: ${this.backup.keep}, use a positive integer.`
+      );
+    }
+    this.logger = options.logger ?? noopLogger;
   }
 
   /**
-   * Ensures the `schema_migrations` and `schema_migrations_lock` tables exist,
-   * and loads migration files from the migrations directory.
+   * Ensures the `schema_migrations`, `schema_migrations_lock`, `schema_migrations_meta` and `schema_migrations_seeds`
+   * tables are up to date,
+   * and loads the migrations from the migration source.
    */
   private async init(): Promise<void> {
     if (this.initialized) {
@@ -55,95 +217,78 @@ export class Migrator extends EventEmitter {
     }
 
     await this.initTables();
-    await this.loadMigrationsFromDirectory();
+    await this.loadMigrations();
 
     this.initialized = true;
   }
 
   /**
-   * Initializes the `schema_migrations` and `schema_migrations_lock` tables.
+   * Creates the `schema_migrations` and `schema_migrations_lock` tables,
+   * or upgrades them when they were created by an older version.
+   * While another connection is writing to the database, retries until `lockTimeoutMs` has passed.
    */
   private async initTables(): Promise<void> {
-    try {
-      // Create the migrations table if it doesn't exist
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS ${this.migrationsTable} (
-          name TEXT PRIMARY KEY,
-          executed_at TEXT NOT NULL,   -- ISO string
-          batch INTEGER NOT NULL
-        )
-      `);
+    const deadline = Date.now() + this.lockTimeoutMs;
 
-      // Create the lock table if it doesn't exist
-      this.db.exec(`
-        CREATE TABLE IF NOT EXISTS ${this.lockTable} (
-          id INTEGER PRIMARY KEY CHECK (id = 1),
-          locked INTEGER NOT NULL DEFAULT 0
-        )
-      `);
+    for (;;) {
+      try {
+        const upgrades = this.withBusyTimeout(deadline, () =>
+          upgradeMetadata(this.db, {
+            migrationsTable: this.migrationsTable,
+            lockTable: this.lockTable,
+            metaTable: this.metaTable,
+            seedsTable: this.seedsTable,
+          })
+        );
+        if (upgrades.length > 0) {
+          this.logger.debug(`Upgraded the migration tables to version ${METADATA_VERSION}`, {
+            upgrades,
+          });
+        }
+        return;
+      } catch (err) {
+        if (isBusy(err) && Date.now() < deadline) {
+          await sleep(Math.min(this.lockRetryIntervalMs, deadline - Date.now()));
+          continue;
+        }
+        if (err instanceof MigrationError) {
+          throw err;
+        }
+        throw new MigrationError('Failed to initialize migrator', err as Error);
+      }
+    }
+  }
 
-      // Ensure exactly one row in the lock table (id=1)
-      this.db.exec(`
-        INSERT OR IGNORE INTO ${this.lockTable} (id, locked) VALUES (1, 0)
-      `);
+  /**
+   * Write to the database, waiting no longer than the deadline for other connections that are writing.
+   * When `lockTimeoutMs` is set the connection's busy timeout is capped at the time left,
+   * otherwise the connection waits as configured.
+   */
+  private withBusyTimeout<T>(deadline: number, write: () => T): T {
+    if (this.lockTimeoutMs === 0) {
+      return write();
+    }
 
-      // Load all migration files
-    } catch (err) {
-      throw new MigrationError('Failed to initialize migrator', err as Error);
+    const busyTimeout = this.db.pragma('busy_timeout', { simple: true }) as number;
+    const remaining = Math.max(0, deadline - Date.now());
+    this.db.pragma(`busy_timeout = ${Math.min(busyTimeout, remaining)}`);
+    try {
+      return write();
+    } finally {
+      this.db.pragma(`busy_timeout = ${busyTimeout}`);
     }
   }
 
   /**
-   * Load migration files from the `migrationsDir`.
-   * Migration files must export { up, down }.
-   * The migrations are loaded in alphabetical order.
+   * Load the migrations from the migration source.
    */
-  private async loadMigrationsFromDirectory(): Promise<void> {
+  private async loadMigrations(): Promise<void> {
     try {
-      const entries = await fs.readdir(this.migrationsDir);
-      // Filter and sort migration files alphabetically
-      const migrationFiles = entries
-        .filter((file) => {
-          // Ignore .d.ts files
-          if (file.endsWith('.d.ts')) {
-            return false;
-          }
-          // Check if file has one of the allowed extensions
-          return this.fileExtensions.some((ext) => file.endsWith(`.${ext}`));
-        })
-        .sort();
-
-      const loadedMigrations: Migration[] = [];
-      for (const file of migrationFiles) {
-        const fullPath = path.join(this.migrationsDir, file);
-
-        let imported: {
-          up: (db: Database) => void;
-          down: (db: Database) => void;
-        };
-
-        try {
-          // Dynamic import (ESM)
-          imported = await import(fullPath);
-        } catch (err) {
-          throw new MigrationFileError(
-            `Error loading migration "${file}": ${String(err)}`,
-            err as Error
-          );
-        }
-
-        const { up, down } = imported;
-        if (typeof up !== 'function' || typeof down !== 'function') {
-          throw new MigrationFileError(
-            `Migration "${file}" must export "up" and "down" functions.`
-          );
-        }
-
-        loadedMigrations.push({ name: file, up, down });
-      }
-
-      // Only update migrations array after all files are loaded successfully
-      this.migrations = loadedMigrations;
+      // Only update migrations array after all migrations are loaded successfully
+      this.migrations = await this.source.load();
+      this.logger.debug(`Loaded ${this.migrations.length} migration(s)`, {
+        migrations: this.migrations.map((m) => m.name),
+      });
     } catch (err) {
       throw err instanceof MigrationFileError
         ? err
@@ -152,42 +297,149 @@ export class Migrator extends EventEmitter {
   }
 
   /**
-   * Acquire a lock to prevent concurrent migrations.
-   * Throws an error if the lock is already held.
+   * Read the current state of the migration lock.
+   * A lock is stale when a `lockTtlMs` is configured and the lock was acquired longer ago than that.
+   * Locks without an acquired time (e.g. taken by older versions) are never considered stale.
    */
-  private acquireLock(): void {
-    const transaction = this.db.transaction(() => {
-      const row = this.db.prepare(`SELECT locked FROM ${this.lockTable} WHERE id = 1`).get() as {
-        locked: number;
-      };
+  private readLock(): LockInfo {
+    const row = this.db
+      .prepare(`SELECT locked, pid, hostname, acquired_at FROM ${this.lockTable} WHERE id = 1`)
+      .get() as {
+      locked: number;
+      pid: number | null;
+      hostname: string | null;
+      acquired_at: string | null;
+    };
 
-      if (row.locked === 1) {
-        throw new MigrationLockError('Migration lock already held by another process.');
+    const locked = row.locked === 1;
+    const acquiredAt = row.acquired_at;
+    const stale =
+      locked &&
+      this.lockTtlMs !== undefined &&
+      acquiredAt !== null &&
+      Date.now() - new Date(acquiredAt).getTime() > this.lockTtlMs;
+
+    return { locked, pid: row.pid, hostname: row.hostname, acquiredAt, stale };
+  }
+
+  /**
+   * Try to acquire the lock once.
+   * Returns the state of the lock held by another process, or undefined when the lock was acquired.
+   * The lock table is read and written in an immediate transaction, so processes starting at the same time
+   * can't both read the lock as free. When another connection is writing, the lock is reported as held.
+   */
+  private tryAcquireLock(): LockInfo | undefined {
+    const acquiredAt = new Date().toISOString();
+    const transaction = this.db.transaction((): LockInfo | undefined => {
+      const lock = this.readLock();
+      if (lock.locked && !lock.stale) {
+        return lock;
       }
 
-      this.db.prepare(`UPDATE ${this.lockTable} SET locked = 1 WHERE id = 1`).run();
+      this.db
+        .prepare(
+          `
+          UPDATE ${this.lockTable}
+          SET locked = 1, pid = ?, hostname = ?, acquired_at = ?
+          WHERE id = 1
+        `
+        )
+        .run(process.pid, os.hostname(), acquiredAt);
+      return undefined;
     });
 
     try {
-      transaction();
+      const lock = transaction.immediate();
+      if (!lock) {
+        // Identifies this migrator's lock when releasing it
+        this.lockAcquiredAt = acquiredAt;
+      }
+      return lock;
     } catch (err) {
-      if (err instanceof MigrationLockError) {
-        throw err;
+      if (isBusy(err)) {
+        return { locked: true, pid: null, hostname: null, acquiredAt: null, stale: false };
       }
-
       throw new MigrationLockError('Failed to acquire migration lock', err as Error);
     }
   }
 
   /**
-   * Release the migration lock.
+   * Acquire a lock to prevent concurrent migrations.
+   * When the lock is held by another process, retries until `lockTimeoutMs` has passed.
+   * Throws an error if the lock is still held, unless the lock is stale.
+   */
+  private async acquireLock(): Promise<void> {
+    const startedAt = Date.now();
+    const deadline = startedAt + this.lockTimeoutMs;
+
+    let lock = this.withBusyTimeout(deadline, () => this.tryAcquireLock());
+    if (lock && this.lockTimeoutMs > 0) {
+      this.logger.info('Waiting for the migration lock held by another process', {
+        pid: lock.pid,
+        hostname: lock.hostname,
+        acquiredAt: lock.acquiredAt,
+      });
+    }
+    while (lock && Date.now() < deadline) {
+      await sleep(Math.min(this.lockRetryIntervalMs, deadline - Date.now()));
+      lock = this.withBusyTimeout(deadline, () => this.tryAcquireLock());
+    }
+
+    if (lock) {
+      const holder =
+        lock.pid !== null ? ` (pid ${lock.pid} on ${lock.hostname}, since ${lock.acquiredAt})` : '';
+      const waited = this.lockTimeoutMs > 0 ? ` after waiting ${Date.now() - startedAt}ms` : '';
+      throw new MigrationLockError(
+        `Migration lock already held by another process${holder}${waited}.`
+      );
+    }
+
+    const waitedMs = Date.now() - startedAt;
+    this.logger.debug('Acquired the migration lock', { waitedMs });
+    this.emit('lock:acquired', { waitedMs });
+  }
+
+  /**
+   * Release the migration lock acquired by this migrator.
+   * When the lock went stale and was taken over by another process, that process's lock is left alone.
+   * @param force Release the lock regardless of which process holds it.
    */
-  private releaseLock(): void {
+  private releaseLock(force = false): void {
+    const acquiredAt = this.lockAcquiredAt;
+    if (!force && acquiredAt === undefined) {
+      return;
+    }
+
+    let released: boolean;
     try {
-      this.db.prepare(`UPDATE ${this.lockTable} SET locked = 0 WHERE id = 1`).run();
+      const owner = force ? '' : 'AND pid = ? AND hostname = ? AND acquired_at = ?';
+      const { changes } = this.db
+        .prepare(
+          `
+          UPDATE ${this.lockTable}
+          SET locked = 0, pid = NULL, hostname = NULL, acquired_at = NULL
+          WHERE id = 1 ${owner}
+        `
+        )
+        .run(...(force ? [] : [process.pid, os.hostname(), acquiredAt]));
+      released = force || changes > 0;
     } catch (err) {
       throw new MigrationLockError('Failed to release migration lock', err as Error);
     }
+
+    // Only report the release of a lock this migrator acquired
+    if (acquiredAt !== undefined) {
+      const heldMs = Date.now() - new Date(acquiredAt).getTime();
+      this.lockAcquiredAt = undefined;
+      if (released) {
+        this.logger.debug('Released the migration lock', { heldMs });
+        this.emit('lock:released', { heldMs });
+      } else {
+        this.logger.warn('The migration lock went stale and was taken over by another process', {
+          heldMs,
+        });
+      }
+    }
   }
 
   /**
@@ -200,19 +452,128 @@ export class Migrator extends EventEmitter {
     return row?.batch ?? 0;
   }
 
+  /**
+   * Get the names of all applied migrations.
+   */
+  private getAppliedNames(): Set<string> {
+    return new Set(
+      this.db
+        .prepare(`SELECT name FROM ${this.migrationsTable}`)
+        .all()
+        .map((row) => (row as { name: string }).name)
+    );
+  }
+
+  /**
+   * Get the migrations that are not yet applied, in order.
+   * When a target is provided only the pending migrations up to `to`, or the next `steps` migrations, are returned.
+   */
+  private getPendingMigrations(target: MigrationTarget = {}): Migration[] {
+    const { to, steps } = target;
+    if (to !== undefined && steps !== undefined) {
+      throw new MigrationError('Specify either "to" or "steps" as the migration target, not both.');
+    }
+
+    const appliedNames = this.getAppliedNames();
+    const pendingMigrations = this.migrations.filter((m) => !appliedNames.has(m.name));
+
+    if (to !== undefined) {
+      const targetIndex = this.migrations.findIndex((m) => m.name === to);
+      if (targetIndex === -1) {
+        throw new MigrationError(`Target migration "${to}" not found.`);
+      }
+
+      return pendingMigrations.filter((m) => this.migrations.indexOf(m) <= targetIndex);
+    }
+
+    if (steps !== undefined) {
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new MigrationError(`Invalid number of steps: ${steps}`);
+      }
+
+      return pendingMigrations.slice(0, steps);
+    }
+
+    return pendingMigrations;
+  }
+
+  /**
+   * Get the pending migrations that sort before the most recently applied migration.
+   */
+  private getOutOfOrderMigrations(): string[] {
+    const appliedNames = this.getAppliedNames();
+    const lastApplied = [...appliedNames].sort().pop();
+    if (lastApplied === undefined) {
+      return [];
+    }
+
+    return this.migrations
+      .filter((m) => !appliedNames.has(m.name) && m.name < lastApplied)
+      .map((m) => m.name);
+  }
+
+  /**
+   * Check the order of the migrations about to be applied against the `outOfOrder` policy.
+   * Returns the names of the out of order migrations, or throws when the policy is `error`.
+   */
+  private checkOrder(pendingMigrations: Migration[]): string[] {
+    if (this.outOfOrder === 'allow') {
+      return [];
+    }
+
+    const outOfOrder = new Set(this.getOutOfOrderMigrations());
+    const names = pendingMigrations.filter((m) => outOfOrder.has(m.name)).map((m) => m.name);
+    if (names.length > 0 && this.outOfOrder === 'error') {
+      throw new MigrationOrderError(
+        `Pending migrations sort before already applied migrations: ${names.join(', ')}`,
+        names
+      );
+    }
+    return names;
+  }
+
+  /**
+   * Get the applied migrations whose contents no longer match the recorded checksum.
+   * Migrations recorded without a checksum, or whose file no longer exists, are skipped.
+   */
+  private getDriftedMigrations(): string[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT name, checksum
+        FROM ${this.migrationsTable}
+        WHERE checksum IS NOT NULL
+        ORDER BY name ASC
+      `
+      )
+      .all() as { name: string; checksum: string }[];
+
+    return rows
+      .filter((row) => {
+        const migration = this.migrations.find((m) => m.name === row.name);
+        return migration?.checksum !== undefined && migration.checksum !== row.checksum;
+      })
+      .map((row) => row.name);
+  }
+
   /**
    * Insert a record for an applied migration.
    */
-  private recordMigration(name: string, batch: number): void {
+  private recordMigration(
+    name: string,
+    batch: number,
+    checksum?: string,
+    durationMs?: number
+  ): void {
     const executedAt = new Date().toISOString();
     this.db
       .prepare(
         `
-        INSERT INTO ${this.migrationsTable} (name, executed_at, batch)
-        VALUES (?, ?, ?)
+        INSERT INTO ${this.migrationsTable} (name, executed_at, batch, checksum, duration_ms)
+        VALUES (?, ?, ?, ?, ?)
       `
       )
-      .run(name, executedAt, batch);
+      .run(name, executedAt, batch, checksum ?? null, durationMs ?? null);
   }
 
   /**
@@ -231,186 +592,741 @@ export class Migrator extends EventEmitter {
 
   /**
    * Run SQL operations in a transaction.
+   * The transaction is managed manually (instead of using `db.transaction()`) so it can span async migrations.
+   * When the connection is already in a transaction opened by the caller, a savepoint is used instead.
    * @param fn The function to run in the transaction.
    */
-  private runTransaction(fn: () => void): void {
-    const transaction = this.db.transaction(fn);
-    transaction();
-  }
-
-  /**
-   * Apply all pending migrations in a single batch.
-   * Returns the names of applied migrations.
-   */
-  async apply(): Promise<MigrationResult> {
-    // Initialize the migrator
-    try {
-      await this.init();
-    } catch (err) {
-      return {
-        success: false,
-        error: err as Error,
-        appliedMigrations: [],
-      };
-    }
+  private async runTransaction(fn: () => Promise<void>): Promise<void> {
+    const nested = this.db.inTransaction;
+    this.db.exec(nested ? 'SAVEPOINT sqlite_up' : 'BEGIN');
+    this.inOuterTransaction = nested;
 
-    // Acquire lock
     try {
-      this.acquireLock();
+      await fn();
+      this.db.exec(nested ? 'RELEASE sqlite_up' : 'COMMIT');
     } catch (err) {
-      return {
-        success: false,
-        error: err as Error,
-        appliedMigrations: [],
-      };
+      // SQLite may already have rolled back the transaction by itself
+      if (this.db.inTransaction) {
+        this.db.exec(nested ? 'ROLLBACK TO sqlite_up; RELEASE sqlite_up' : 'ROLLBACK');
+      }
+      throw err;
+    } finally {
+      this.inOuterTransaction = false;
     }
+  }
 
-    const appliedMigrations: string[] = [];
-    try {
-      const currentBatch = this.getCurrentBatch();
-      const nextBatch = currentBatch + 1;
-
-      // Determine pending migrations: not present in schema_migrations
-      const appliedNames = new Set(
-        this.db
-          .prepare(`SELECT name FROM ${this.migrationsTable}`)
-          .all()
-          .map((row) => (row as { name: string }).name)
+  /**
+   * Run the `up` or `down` function of the migrations and update the migrations table accordingly.
+   * Consecutive migrations share a transaction, unless the transaction mode is `migration`.
+   * Migrations that opt out of transactions run on their own, after which only the update of the
+   * migrations table is wrapped in a transaction.
+   * @param progress Receives the names of the migrations once their changes are committed.
+   */
+  private async runMigrations(
+    steps: MigrationStep[],
+    direction: MigrationDirection,
+    progress: MigrationProgress
+  ): Promise<void> {
+    // Returns the time in milliseconds the migration took
+    const run = async ({ migration, batch }: MigrationStep): Promise<number> => {
+      progress.current = migration.name;
+      this.logger.info(
+        `${direction === 'up' ? 'Applying' : 'Rolling back'} migration "${migration.name}"`,
+        { batch }
       );
+      this.emit('migration:start', { name: migration.name, batch, direction });
 
-      // Get pending migrations, if any
-      const pendingMigrations = this.migrations.filter((m) => !appliedNames.has(m.name));
-      if (pendingMigrations.length === 0) {
-        return { success: true, appliedMigrations };
+      const startedAt = Date.now();
+      try {
+        await this.runMigration(migration, direction);
+      } catch (err) {
+        const error = new MigrationExecutionError(
+          `Failed to ${direction === 'up' ? 'apply' : 'rollback'} migration "${migration.name}"`,
+          err as Error
+        );
+        const durationMs = Date.now() - startedAt;
+        this.emit('migration:failed', {
+          name: migration.name,
+          batch,
+          direction,
+          error,
+          durationMs,
+        });
+        throw error;
       }
+      return Date.now() - startedAt;
+    };
 
-      // Perform the migration
-      this.runTransaction(() => {
-        for (const migration of pendingMigrations) {
-          try {
-            // Apply migration
-            migration.up(this.db);
+    const update = ({ migration, batch }: MigrationStep, durationMs: number): void => {
+      if (direction === 'up') {
+        this.recordMigration(migration.name, batch, migration.checksum, durationMs);
+        this.logger.info(`Applied migration "${migration.name}"`, { batch, durationMs });
+        this.emit('migration:applied', migration.name, batch, durationMs);
+      } else {
+        this.removeMigration(migration.name, batch);
+        this.logger.info(`Rolled back migration "${migration.name}"`, { batch, durationMs });
+        this.emit('migration:rollback', migration.name, batch, durationMs);
+      }
+    };
 
-            // Record migration
-            this.recordMigration(migration.name, nextBatch);
-            appliedMigrations.push(migration.name);
-            this.emit('migration:applied', migration.name, nextBatch);
-          } catch (err) {
+    const migrations = steps.map((step) => step.migration.name);
+    const committed = progress.committed.length;
+    const startedAt = Date.now();
+    this.emit('batch:start', { direction, migrations });
+
+    try {
+      for (const group of groupByTransaction(steps, this.transactionMode)) {
+        if (group.transaction) {
+          await this.runTransaction(async () => {
+            for (const step of group.steps) {
+              update(step, await run(step));
+            }
+          });
+          progress.committed.push(...group.steps.map((step) => step.migration.name));
+          continue;
+        }
+
+        for (const step of group.steps) {
+          if (this.db.inTransaction) {
             throw new MigrationExecutionError(
-              `Failed to rollback migration "${migration.name}"`,
-              err as Error
+              `Migration "${step.migration.name}" must run outside of a transaction, but the database connection is already in a transaction.`
             );
           }
+
+          // The migration runs without a transaction, the migrations table is still updated atomically
+          const durationMs = await run(step);
+          await this.runTransaction(async () => update(step, durationMs));
+          progress.committed.push(step.migration.name);
         }
+      }
+    } catch (err) {
+      this.emit('batch:end', {
+        direction,
+        migrations,
+        success: false,
+        committed: progress.committed.slice(committed),
+        durationMs: Date.now() - startedAt,
+        error: err as Error,
       });
-      return { success: true, appliedMigrations };
-    } catch (error) {
-      const err =
-        error instanceof MigrationExecutionError
-          ? error
-          : new MigrationExecutionError('Migration failed', error as Error);
-      return { success: false, error: err, appliedMigrations: [] };
-    } finally {
-      this.releaseLock();
+      throw err;
     }
+
+    progress.current = undefined;
+    this.emit('batch:end', {
+      direction,
+      migrations,
+      success: true,
+      committed: progress.committed.slice(committed),
+      durationMs: Date.now() - startedAt,
+    });
   }
 
   /**
-   * Roll back the most recent batch of migrations.
-   * Returns the names of rolled back migrations.
+   * Run the `up` or `down` function of a migration, waiting for it to finish if it is async.
    */
-  async rollback(): Promise<MigrationResult> {
-    // Initialize the migrator
-    try {
-      await this.init();
-    } catch (err) {
-      return {
-        success: false,
-        error: err as Error,
-        appliedMigrations: [],
-      };
-    }
+  private async runMigration(
+    migration: Migration,
+    direction: MigrationDirection,
+    db: Database = this.db
+  ): Promise<void> {
+    await this.settle(migration[direction](db), `Migration "${migration.name}"`);
+  }
 
-    // Acquire lock
-    try {
-      this.acquireLock();
-    } catch (err) {
-      return {
-        success: false,
-        error: err as Error,
-        appliedMigrations: [],
-      };
+  /**
+   * Wait for the result of a migration or seed function if it is async.
+   * @param subject Describes the function in the error, e.g. `Migration "001_init.ts"`.
+   */
+  private async settle(result: void | Promise<void>, subject: string): Promise<void> {
+    if (!isPromise(result)) {
+      return;
     }
 
-    const appliedMigrations: string[] = [];
-    try {
-      // Check if there are migrations to rollback
-      const currentBatch = this.getCurrentBatch();
-      if (currentBatch === 0) {
-        return { success: true, appliedMigrations };
-      }
+    if (this.inOuterTransaction) {
+      // Let the function settle before the savepoint is rolled back
+      await result.catch(() => undefined);
+      throw new MigrationExecutionError(
+        `${subject} is async, which is not supported while the database connection is already in a transaction.`
+      );
+    }
 
-      // Get migrations in the last batch, sorted descending
-      const rows = this.db
-        .prepare(
-          `
-          SELECT name
-          FROM ${this.migrationsTable}
-          WHERE batch = ?
-          ORDER BY name DESC
-        `
-        )
-        .all(currentBatch) as { name: string }[];
+    await result;
+  }
 
-      // No migrations found in the last batch
-      if (rows.length === 0) {
-        return { success: true, appliedMigrations };
-      }
+  /**
+   * Run the `up` function of the migrations in a transaction that is always rolled back,
+   * capturing the SQL statements each migration executes.
+   * Migrations that opt out of transactions are skipped, since their changes could not be rolled back.
+   * @param captured Receives the captured statements per migration.
+   */
+  private async dryRunMigrations(
+    migrations: Migration[],
+    captured: CapturedMigration[],
+    progress: MigrationProgress
+  ): Promise<void> {
+    const rollback = new Error('Dry run rollback');
 
-      // Perform the rollback
-      this.runTransaction(() => {
-        for (const row of rows) {
-          const migration = this.migrations.find((m) => m.name === row.name);
-          if (!migration) {
-            throw new MigrationFileError(`Migration "${row.name}" not found.`);
+    try {
+      await this.runTransaction(async () => {
+        for (const migration of migrations) {
+          if (migration.transaction === false) {
+            captured.push({ name: migration.name, statements: [], skipped: true });
+            continue;
           }
 
-          try {
-            // Revert migration
-            migration.down(this.db);
-
-            // Remove migration record
-            this.removeMigration(migration.name, currentBatch);
+          const statements: string[] = [];
+          captured.push({ name: migration.name, statements });
 
-            appliedMigrations.push(migration.name);
-            this.emit('migration:rollback', migration.name, currentBatch);
+          progress.current = migration.name;
+          try {
+            await this.runMigration(migration, 'up', captureDatabase(this.db, statements));
           } catch (err) {
             throw new MigrationExecutionError(
-              `Failed to rollback migration "${migration.name}"`,
+              `Failed to apply migration "${migration.name}"`,
               err as Error
             );
           }
         }
-      });
 
-      return { success: true, appliedMigrations };
-    } catch (error) {
-      const err =
-        error instanceof MigrationExecutionError
-          ? error
-          : new MigrationExecutionError('Rollback failed', error as Error);
-      return { success: false, error: err, appliedMigrations };
-    } finally {
-      this.releaseLock();
+        progress.current = undefined;
+        throw rollback;
+      });
+    } catch (err) {
+      if (err !== rollback) {
+        throw err;
+      }
     }
   }
 
   /**
-   * Get the status of migrations.
-   * Returns:
-   * - currentBatch: the highest batch number applied
+   * Write the current schema to the schema file, if one is configured.
+   */
+  private async writeSchemaFile(): Promise<void> {
+    if (this.schemaFile === undefined) {
+      return;
+    }
+
+    try {
+      await fs.writeFile(this.schemaFile, this.readSchema());
+      this.logger.debug(`Wrote schema file "${this.schemaFile}"`);
+    } catch (err) {
+      throw new MigrationFileError(
+        `Failed to write schema file "${this.schemaFile}"`,
+        err as Error
+      );
+    }
+  }
+
+  /**
+   * Back up the database before running a batch, if backups are enabled.
+   * Returns the id of the backup.
+   */
+  private async backupDatabase(): Promise<string | undefined> {
+    if (this.backup === undefined) {
+      return undefined;
+    }
+
+    const id = await createBackup(this.db, this.backup.dir, this.backup.keep);
+    this.logger.info(`Backed up the database as "${id}"`, { dir: this.backup.dir });
+    return id;
+  }
+
+  /**
+   * Dump the schema, leaving out the tables used by the migrator itself.
+   */
+  private readSchema(): string {
+    return dumpSchema(this.db, [
+      this.migrationsTable,
+      this.lockTable,
+      this.metaTable,
+      this.seedsTable,
+    ]);
+  }
+
+  /**
+   * Apply pending migrations in a single batch.
+   * By default all pending migrations are applied, use `to` or `steps` to only apply part of them.
+   * With `dryRun` the migrations are run in a transaction that is always rolled back,
+   * and the SQL statements each migration executes are returned in `capturedSql`.
+   * Returns the names of applied migrations.
+   * @example
+   * await migrator.apply({ to: '005_add_index.ts' });
+   * await migrator.apply({ steps: 2 });
+   * const { capturedSql } = await migrator.apply({ dryRun: true });
+   */
+  async apply(options: ApplyOptions = {}): Promise<MigrationResult> {
+    const { dryRun, ...target } = options;
+    const appliedMigrations: string[] = [];
+    const progress: MigrationProgress = { committed: appliedMigrations };
+    let backup = {};
+
+    return this.runLocked<MigrationResult>(
+      {
+        failed: (error) => {
+          const failed = progress.current ? { failedMigration: progress.current } : {};
+          return { success: false, error, appliedMigrations, ...failed, ...backup };
+        },
+        wrap: (error) => new MigrationExecutionError('Migration failed', error),
+        context: () => ({ migration: progress.current }),
+      },
+      async () => {
+        // Detect applied migrations that were modified after they ran
+        const driftedMigrations = this.getDriftedMigrations();
+        if (driftedMigrations.length > 0) {
+          if (this.validateChecksums) {
+            const error = new MigrationChecksumError(
+              `Applied migrations have been modified: ${driftedMigrations.join(', ')}`,
+              driftedMigrations
+            );
+            this.logger.error(error.message);
+            return {
+              success: false,
+              error,
+              appliedMigrations,
+              driftedMigrations,
+            };
+          }
+
+          for (const name of driftedMigrations) {
+            this.logger.warn(`Applied migration "${name}" was modified after it ran`);
+            this.emit('migration:drift', name);
+          }
+        }
+        const drift = driftedMigrations.length > 0 ? { driftedMigrations } : {};
+
+        const currentBatch = this.getCurrentBatch();
+        const nextBatch = currentBatch + 1;
+
+        // Get pending migrations up to the target, if any
+        const pendingMigrations = this.getPendingMigrations(target);
+        if (pendingMigrations.length === 0) {
+          if (!dryRun) {
+            await this.writeSchemaFile();
+          }
+          return { success: true, appliedMigrations, ...drift };
+        }
+
+        // Enforce the out of order policy
+        let outOfOrderMigrations: string[];
+        try {
+          outOfOrderMigrations = this.checkOrder(pendingMigrations);
+        } catch (err) {
+          const error = err as MigrationOrderError;
+          this.logger.error(error.message);
+          return {
+            success: false,
+            error,
+            appliedMigrations,
+            outOfOrderMigrations: error.migrations,
+            ...drift,
+          };
+        }
+        for (const name of outOfOrderMigrations) {
+          this.logger.warn(`Migration "${name}" sorts before already applied migrations`);
+        }
+        const order = outOfOrderMigrations.length > 0 ? { outOfOrderMigrations } : {};
+
+        // Capture the SQL without applying the migrations
+        if (dryRun) {
+          const capturedSql: CapturedMigration[] = [];
+          try {
+            await this.dryRunMigrations(pendingMigrations, capturedSql, progress);
+          } catch (err) {
+            this.logger.error((err as Error).message, { migration: progress.current });
+            const failed = progress.current ? { failedMigration: progress.current } : {};
+            return {
+              success: false,
+              error: err as Error,
+              appliedMigrations,
+              capturedSql,
+              ...failed,
+              ...drift,
+              ...order,
+            };
+          }
+          return { success: true, appliedMigrations, capturedSql, ...drift, ...order };
+        }
+
+        // Back up the database so it can be restored if the batch leaves it broken
+        const backupId = await this.backupDatabase();
+        backup = backupId !== undefined ? { backupId } : {};
+
+        // Perform the migration
+        await this.runMigrations(
+          pendingMigrations.map((migration) => ({ migration, batch: nextBatch })),
+          'up',
+          progress
+        );
+        await this.writeSchemaFile();
+        return { success: true, appliedMigrations, ...drift, ...order, ...backup };
+      }
+    );
+  }
+
+  /**
+   * Get all applied migrations that can be rolled back, most recent first.
+   * Baselined migrations are left out, since their `up` never ran.
+   */
+  private getAppliedRowsDescending(): AppliedMigrationRow[] {
+    return this.db
+      .prepare(
+        `
+        SELECT name, batch
+        FROM ${this.migrationsTable}
+        WHERE batch != ?
+        ORDER BY batch DESC, name DESC
+      `
+      )
+      .all(BASELINE_BATCH) as AppliedMigrationRow[];
+  }
+
+  /**
+   * Get the applied migrations to roll back, most recent first.
+   * By default the most recent batch is selected.
+   */
+  private getRollbackRecords(options: RollbackOptions = {}): AppliedMigrationRow[] {
+    const { to, batches, steps } = options;
+    if ([to, batches, steps].filter((o) => o !== undefined).length > 1) {
+      throw new MigrationError('Specify only one of "to", "batches" or "steps" to roll back.');
+    }
+
+    const rows = this.getAppliedRowsDescending();
+    if (to !== undefined) {
+      const targetIndex = rows.findIndex((r) => r.name === to);
+      if (targetIndex === -1) {
+        // Rolling back to a baselined migration rolls back everything applied after the baseline
+        if (this.getAppliedNames().has(to)) {
+          return rows;
+        }
+        throw new MigrationError(`Target migration "${to}" has not been applied.`);
+      }
+
+      // The target migration itself stays applied
+      return rows.slice(0, targetIndex);
+    }
+
+    if (steps !== undefined) {
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new MigrationError(`Invalid number of steps: ${steps}`);
+      }
+
+      return rows.slice(0, steps);
+    }
+
+    const batchCount = batches ?? 1;
+    if (!Number.isInteger(batchCount) || batchCount < 1) {
+      throw new MigrationError(`Invalid number of batches: ${batchCount}`);
+    }
+
+    const rolledBackBatches = [...new Set(rows.map((r) => r.batch))].slice(0, batchCount);
+    return rows.filter((r) => rolledBackBatches.includes(r.batch));
+  }
+
+  /**
+   * Roll back applied migrations.
+   * By default the most recent batch is rolled back, use `to`, `batches` or `steps` to roll back further.
+   * Returns the names of rolled back migrations.
+   * @example
+   * await migrator.rollback({ to: '002_add_age.ts' });
+   * await migrator.rollback({ batches: 2 });
+   * await migrator.rollback({ steps: 1 });
+   */
+  async rollback(options: RollbackOptions = {}): Promise<MigrationResult> {
+    return this.revert(() => this.getRollbackRecords(options));
+  }
+
+  /**
+   * Roll back all applied migrations, except for baselined migrations.
+   * Returns the names of rolled back migrations.
+   */
+  async reset(): Promise<MigrationResult> {
+    return this.revert(() => this.getAppliedRowsDescending());
+  }
+
+  /**
+   * Adopt an existing database by recording the migrations up to and including `to` as applied, without running them.
+   * The migrations are recorded in batch 0, so they are never rolled back. Only later migrations run on `apply()`.
+   * Can only be used on a database without applied migrations.
+   * Returns the names of the recorded migrations.
+   * @example
+   * await migrator.baseline({ to: '005_add_index.ts' });
+   */
+  async baseline(options: BaselineOptions): Promise<MigrationResult> {
+    return this.recordWhileLocked('Baseline failed', async () => {
+      if (this.getAppliedNames().size > 0) {
+        throw new MigrationError('Cannot baseline a database that already has applied migrations.');
+      }
+
+      const migrations = this.getPendingMigrations({ to: options.to });
+      await this.runTransaction(async () => {
+        for (const migration of migrations) {
+          this.recordMigration(migration.name, BASELINE_BATCH, migration.checksum);
+        }
+      });
+
+      const names = migrations.map((m) => m.name);
+      this.logger.info(`Baselined ${names.length} migration(s)`, { migrations: names });
+      return names;
+    });
+  }
+
+  /**
+   * Record a migration as applied without running it, e.g. after the change was made by hand.
+   * The migration is recorded in a new batch, so rolling back that batch runs its `down`.
+   * Emits `migration:marked-applied`.
+   * @example
+   * await migrator.markApplied('007_hotfix_index.ts');
+   */
+  async markApplied(name: string): Promise<MigrationResult> {
+    return this.recordWhileLocked('Failed to mark migration as applied', async () => {
+      const migration = this.migrations.find((m) => m.name === name);
+      if (!migration) {
+        throw new MigrationFileError(`Migration "${name}" not found.`);
+      }
+      if (this.getAppliedNames().has(name)) {
+        throw new MigrationError(`Migration "${name}" has already been applied.`);
+      }
+
+      const batch = this.getCurrentBatch() + 1;
+      await this.runTransaction(async () => this.recordMigration(name, batch, migration.checksum));
+
+      this.logger.info(`Marked migration "${name}" as applied`, { batch });
+      this.emit('migration:marked-applied', name, batch);
+      return [name];
+    });
+  }
+
+  /**
+   * Remove the record of an applied migration without running its `down`, so it runs again on the next `apply()`.
+   * Also works for applied migrations whose file no longer exists.
+   * Emits `migration:marked-unapplied`.
+   * @example
+   * await migrator.markUnapplied('007_hotfix_index.ts');
+   */
+  async markUnapplied(name: string): Promise<MigrationResult> {
+    return this.recordWhileLocked('Failed to mark migration as unapplied', async () => {
+      const row = this.db
+        .prepare(`SELECT name, batch FROM ${this.migrationsTable} WHERE name = ?`)
+        .get(name) as AppliedMigrationRow | undefined;
+      if (!row) {
+        throw new MigrationError(`Migration "${name}" has not been applied.`);
+      }
+
+      await this.runTransaction(async () => this.removeMigration(row.name, row.batch));
+
+      this.logger.info(`Marked migration "${name}" as unapplied`, { batch: row.batch });
+      this.emit('migration:marked-unapplied', name, row.batch);
+      return [name];
+    });
+  }
+
+  /**
+   * Update the migrations table without running migrations, while holding the lock.
+   * @param failure Message of the error wrapping unexpected errors.
+   * @param record Updates the migrations table and returns the names of the affected migrations.
+   */
+  private async recordWhileLocked(
+    failure: string,
+    record: () => Promise<string[]>
+  ): Promise<MigrationResult> {
+    return this.runLocked<MigrationResult>(
+      {
+        failed: (error) => ({ success: false, error, appliedMigrations: [] }),
+        wrap: (error) => new MigrationError(failure, error),
+      },
+      async () => ({ success: true, appliedMigrations: await record() })
+    );
+  }
+
+  /**
+   * Initialize the migrator and run an operation while holding the lock.
+   * Errors while initializing, acquiring the lock or running the operation are logged and returned as a failed result.
+   * @param handlers.failed Builds the failed result for an error, from the state of the operation at that point.
+   * @param handlers.wrap Wraps errors of the operation that are not a `MigrationError`.
+   * @param handlers.context Returns details to log with errors of the operation, such as the failed migration.
+   */
+  private async runLocked<R>(
+    handlers: {
+      failed: (error: Error) => R;
+      wrap: (error: Error) => MigrationError;
+      context?: () => Record<string, unknown>;
+    },
+    operation: () => Promise<R>
+  ): Promise<R> {
+    // Initialize the migrator
+    try {
+      await this.init();
+    } catch (err) {
+      this.logger.error((err as Error).message, { error: err });
+      return handlers.failed(err as Error);
+    }
+
+    // Acquire lock
+    try {
+      await this.acquireLock();
+    } catch (err) {
+      this.logger.error((err as Error).message);
+      return handlers.failed(err as Error);
+    }
+
+    try {
+      return await operation();
+    } catch (error) {
+      const err = error instanceof MigrationError ? error : handlers.wrap(error as Error);
+      this.logger.error(err.message, { ...handlers.context?.(), error: err.cause ?? err });
+      return handlers.failed(err);
+    } finally {
+      this.releaseLock();
+    }
+  }
+
+  /**
+   * Revert the selected migrations in a single transaction while holding the lock.
+   * @param select Returns the applied migrations to revert, in the order they should be reverted.
+   */
+  private async revert(select: () => AppliedMigrationRow[]): Promise<MigrationResult> {
+    const appliedMigrations: string[] = [];
+    const progress: MigrationProgress = { committed: appliedMigrations };
+    let backup = {};
+
+    return this.runLocked<MigrationResult>(
+      {
+        failed: (error) => {
+          const failed = progress.current ? { failedMigration: progress.current } : {};
+          return { success: false, error, appliedMigrations, ...failed, ...backup };
+        },
+        wrap: (error) => new MigrationExecutionError('Rollback failed', error),
+        context: () => ({ migration: progress.current }),
+      },
+      async () => {
+        // Check if there are migrations to rollback
+        const rows = select();
+        if (rows.length === 0) {
+          await this.writeSchemaFile();
+          return { success: true, appliedMigrations };
+        }
+
+        // Make sure every migration can be reverted before making changes
+        const steps = rows.map((row) => {
+          const migration = this.migrations.find((m) => m.name === row.name);
+          if (!migration) {
+            throw new MigrationFileError(`Migration "${row.name}" not found.`);
+          }
+          return { migration, batch: row.batch };
+        });
+
+        // Back up the database, down migrations usually drop data
+        const backupId = await this.backupDatabase();
+        backup = backupId !== undefined ? { backupId } : {};
+
+        // Perform the rollback
+        await this.runMigrations(steps, 'down', progress);
+        await this.writeSchemaFile();
+
+        return { success: true, appliedMigrations, ...backup };
+      }
+    );
+  }
+
+  /**
+   * Run the seeds in the seeds directory in a single transaction while holding the lock.
+   * Seeds run once and are recorded in the `schema_migrations_seeds` table, unless they are re-runnable.
+   * Seeds restricted to other environments than `env` are skipped.
+   * @example
+   * const result = await migrator.seed({ env: 'development' });
+   */
+  async seed(options: SeedOptions = {}): Promise<SeedResult> {
+    const seedsDir = this.seedsDir;
+    if (seedsDir === undefined) {
+      const error = new MigrationError(
+        'Seeding requires a seeds directory, set the "seedsDir" option.'
+      );
+      this.logger.error(error.message);
+      return { success: false, error, seeded: [], skipped: [] };
+    }
+
+    let current: string | undefined;
+    return this.runLocked<SeedResult>(
+      {
+        failed: (error) => {
+          const failed = current ? { failedSeed: current } : {};
+          return { success: false, error, seeded: [], skipped: [], ...failed };
+        },
+        wrap: (error) => new MigrationError('Seeding failed', error),
+        context: () => ({ seed: current }),
+      },
+      async () => {
+        const seeds = await loadSeeds(seedsDir, this.fileExtensions);
+        this.logger.debug(`Loaded ${seeds.length} seed(s)`, { seeds: seeds.map((s) => s.name) });
+
+        const { only, env } = options;
+        const missing = (only ?? []).find((name) => !seeds.some((s) => s.name === name));
+        if (missing !== undefined) {
+          throw new MigrationError(`Seed "${missing}" not found.`);
+        }
+
+        const seededNames = this.getSeededNames();
+        const pending: Seed[] = [];
+        const skipped: string[] = [];
+        for (const seed of seeds.filter((s) => only === undefined || only.includes(s.name))) {
+          const otherEnv = seed.env !== undefined && (env === undefined || !seed.env.includes(env));
+          if (otherEnv || (seededNames.has(seed.name) && !seed.rerunnable)) {
+            skipped.push(seed.name);
+          } else {
+            pending.push(seed);
+          }
+        }
+
+        await this.runTransaction(async () => {
+          for (const seed of pending) {
+            current = seed.name;
+            this.logger.info(`Running seed "${seed.name}"`);
+            try {
+              await this.settle(seed.run(this.db), `Seed "${seed.name}"`);
+            } catch (err) {
+              throw new MigrationExecutionError(`Failed to run seed "${seed.name}"`, err as Error);
+            }
+            this.recordSeed(seed);
+          }
+        });
+
+        return { success: true, seeded: pending.map((s) => s.name), skipped };
+      }
+    );
+  }
+
+  /**
+   * Get the names of all seeds that ran.
+   */
+  private getSeededNames(): Set<string> {
+    return new Set(
+      this.db
+        .prepare(`SELECT name FROM ${this.seedsTable}`)
+        .all()
+        .map((row) => (row as { name: string }).name)
+    );
+  }
+
+  /**
+   * Insert or update the record of a seed that ran.
+   */
+  private recordSeed(seed: Seed): void {
+    this.db
+      .prepare(
+        `
+        INSERT OR REPLACE INTO ${this.seedsTable} (name, executed_at, checksum)
+        VALUES (?, ?, ?)
+      `
+      )
+      .run(seed.name, new Date().toISOString(), seed.checksum);
+  }
+
+  /**
+   * Get the status of migrations.
+   * Returns:
+   * - currentBatch: the highest batch number applied
    * - pending: number of migrations not yet applied
    * - applied: list of all applied migrations
+   * - drifted: list of applied migrations modified since they ran
    */
   async status(): Promise<MigrationStatus> {
     await this.init();
@@ -422,58 +1338,340 @@ export class Migrator extends EventEmitter {
       const rows = this.db
         .prepare(
           `
-          SELECT name, executed_at, batch
+          SELECT name, executed_at, batch, checksum, duration_ms
           FROM ${this.migrationsTable}
           ORDER BY batch ASC, name ASC
         `
         )
         .all() as MigrationRecord[];
 
-      // Determine pending migrations
+      // Applied migrations without a migration file are not pending
       const appliedNames = new Set(rows.map((r) => r.name));
-      const pending = this.migrations.length - appliedNames.size;
+      const pending = this.migrations.filter((m) => !appliedNames.has(m.name)).length;
 
       return {
         currentBatch,
         pending,
         applied: rows,
+        drifted: this.getDriftedMigrations(),
       };
     } catch (err) {
       throw new MigrationError('Failed to get migration status', err as Error);
     }
   }
 
+  /**
+   * Validate the applied migrations against the migration source, e.g. as a startup or CI check.
+   * Returns:
+   * - missing: applied migrations that no longer exist
+   * - outOfOrder: pending migrations that sort before the most recently applied migration
+   * - duplicates: migrations with the same name, ignoring the file extension
+   * @example
+   * const report = await migrator.validate();
+   * if (!report.valid) {
+   *   throw new Error(`Invalid migrations: ${JSON.stringify(report)}`);
+   * }
+   */
+  async validate(): Promise<ValidationReport> {
+    await this.init();
+
+    try {
+      const names = new Set(this.migrations.map((m) => m.name));
+      const missing = [...this.getAppliedNames()].filter((name) => !names.has(name)).sort();
+      const outOfOrder = this.getOutOfOrderMigrations();
+
+      // Group migrations by their name without extension to find duplicates
+      const byBaseName = new Map<string, string[]>();
+      for (const { name } of this.migrations) {
+        const baseName = name.replace(/\.[^.]+$/, '');
+        byBaseName.set(baseName, [...(byBaseName.get(baseName) ?? []), name]);
+      }
+      const duplicates = [...byBaseName.values()].filter((group) => group.length > 1).flat();
+
+      return {
+        valid: missing.length === 0 && outOfOrder.length === 0 && duplicates.length === 0,
+        missing,
+        outOfOrder,
+        duplicates,
+      };
+    } catch (err) {
+      throw new MigrationError('Failed to validate migrations', err as Error);
+    }
+  }
+
   /**
    * Plan the pending migrations without applying them.
+   * Accepts the same target as `apply()`, so the plan matches exactly what would run.
    * Returns the next batch number and the list of pending migration names in order.
+   * Out of order migrations are reported when `outOfOrder` is `warn`, and throw a `MigrationOrderError` when it is `error`.
    */
-  async plan(): Promise<MigrationPlan> {
+  async plan(target: MigrationTarget = {}): Promise<MigrationPlan> {
     await this.init();
 
     try {
       const currentBatch = this.getCurrentBatch();
       const nextBatch = currentBatch + 1;
 
-      // Determine pending migrations: not present in schema_migrations
-      const appliedNames = new Set(
-        this.db
-          .prepare(`SELECT name FROM ${this.migrationsTable}`)
-          .all()
-          .map((row) => (row as { name: string }).name)
-      );
-
-      const pendingMigrations = this.migrations
-        .filter((m) => !appliedNames.has(m.name))
-        .map((m) => m.name);
+      const pending = this.getPendingMigrations(target);
+      const outOfOrderMigrations = this.checkOrder(pending);
 
       return {
         nextBatch,
-        pendingMigrations,
+        pendingMigrations: pending.map((m) => m.name),
+        ...(outOfOrderMigrations.length > 0 ? { outOfOrderMigrations } : {}),
       };
     } catch (err) {
+      if (err instanceof MigrationError) {
+        throw err;
+      }
+
       throw new MigrationError('Failed to create migration plan', err as Error);
     }
   }
+
+  /**
+   * Dump the tables, indexes, views and triggers of the database as normalized SQL.
+   * The output is sorted and formatted deterministically, so it can be committed and compared in CI.
+   * The migrator's own tables are not included.
+   */
+  async dumpSchema(): Promise<string> {
+    await this.init();
+
+    try {
+      return this.readSchema();
+    } catch (err) {
+      throw new MigrationError('Failed to dump schema', err as Error);
+    }
+  }
+
+  /**
+   * Verify that the `down` of each pending migration reverses its `up`.
+   * On a scratch copy of the database each pending migration is applied, reverted and applied again,
+   * and the schema after reverting is compared to the schema before applying. The database itself is not modified.
+   * @example
+   * const report = await migrator.verifyReversibility();
+   * report.migrations.filter((m) => !m.reversible).forEach((m) => console.error(m.name));
+   */
+  async verifyReversibility(): Promise<ReversibilityReport> {
+    await this.init();
+
+    // The copy is a temporary file rather than a serialized buffer: a buffer keeps the journal mode
+    // of the database, and SQLite can't write to an in-memory copy of a WAL database
+    const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-up-verify-'));
+    let scratchDb: Database;
+    try {
+      const scratchPath = path.join(scratchDir, 'scratch.db');
+      await this.db.backup(scratchPath);
+      scratchDb = new SQLiteDatabase(scratchPath);
+    } catch (err) {
+      await fs.rm(scratchDir, { recursive: true, force: true });
+      throw new MigrationError('Failed to create a scratch copy of the database', err as Error);
+    }
+
+    try {
+      const scratch = new Migrator({
+        db: scratchDb,
+        source: new MemoryMigrationSource(this.migrations),
+        migrationsTable: this.migrationsTable,
+        migrationsLockTable: this.lockTable,
+        transactionMode: this.transactionMode,
+      });
+
+      // The copy is private to this process, a lock copied from the database does not apply to it
+      await scratch.forceUnlock();
+
+      const migrations: ReversibilityCheck[] = [];
+      for (const { name } of this.getPendingMigrations()) {
+        const expectedSchema = await scratch.dumpSchema();
+
+        const applied = await scratch.apply({ steps: 1 });
+        if (!applied.success) {
+          migrations.push({ name, reversible: false, error: applied.error });
+          break;
+        }
+
+        const reverted = await scratch.rollback({ steps: 1 });
+        if (!reverted.success) {
+          migrations.push({ name, reversible: false, error: reverted.error });
+          continue;
+        }
+
+        const actualSchema = await scratch.dumpSchema();
+        const reapplied = await scratch.apply({ steps: 1 });
+        if (!reapplied.success) {
+          migrations.push({ name, reversible: false, error: reapplied.error });
+          break;
+        }
+
+        migrations.push(
+          actualSchema === expectedSchema
+            ? { name, reversible: true }
+            : { name, reversible: false, expectedSchema, actualSchema }
+        );
+      }
+
+      return { success: migrations.every((m) => m.reversible), migrations };
+    } finally {
+      scratchDb.close();
+      await fs.rm(scratchDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * List the backups taken before batches ran, most recent first.
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    if (this.backup === undefined) {
+      throw new MigrationError('Backups are not enabled, set the "backup" option.');
+    }
+
+    return listBackups(this.backup.dir);
+  }
+
+  /**
+   * Restore a backup taken before a batch ran, e.g. after a migration without transaction failed halfway.
+   * The database file is overwritten with the backup while holding the lock.
+   * @example
+   * const result = await migrator.apply();
+   * if (!result.success && result.backupId) {
+   *   await migrator.restoreBackup(result.backupId);
+   * }
+   */
+  async restoreBackup(id: string): Promise<void> {
+    if (this.backup === undefined) {
+      throw new MigrationError('Backups are not enabled, set the "backup" option.');
+    }
+
+    await this.init();
+    await this.acquireLock();
+    try {
+      await restoreBackup(this.db, this.backup.dir, id);
+    } finally {
+      // The backup was taken while this process held the lock, so the restored lock is released as well
+      this.releaseLock(true);
+    }
+  }
+
+  /**
+   * Get the state of the migration lock, including which process holds it.
+   */
+  async getLockInfo(): Promise<LockInfo> {
+    await this.init();
+
+    try {
+      return this.readLock();
+    } catch (err) {
+      throw new MigrationLockError('Failed to read migration lock', err as Error);
+    }
+  }
+
+  /**
+   * Release the migration lock regardless of which process holds it.
+   * Only use this when the lock holder is known to have crashed, e.g. a deploy that died mid-migration.
+   */
+  async forceUnlock(): Promise<void> {
+    await this.init();
+    this.releaseLock(true);
+  }
+
+  /**
+   * Create a new migration file in the migrations directory.
+   * The file name is prefixed with a sortable UTC timestamp (e.g. `20250122122922_add_email_index.ts`).
+   * Returns the path of the created file.
+   * @example
+   * await migrator.create('add email index', { format: 'sql' });
+   */
+  async create(name: string, options: CreateMigrationOptions = {}): Promise<string> {
+    const format: MigrationFormat = options.format ?? 'ts';
+    const template = MIGRATION_TEMPLATES[format];
+    if (template === undefined) {
+      throw new MigrationError(`Unsupported migration format "${format}", use ts, js or sql.`);
+    }
+
+    const slug = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    if (!slug) {
+      throw new MigrationError(`Invalid migration name "${name}".`);
+    }
+
+    if (!(this.source instanceof DirectoryMigrationSource)) {
+      throw new MigrationError('Creating migrations requires a migrations directory.');
+    }
+
+    // The first migration of a new project also creates the migrations directory
+    try {
+      await fs.mkdir(this.source.dir, { recursive: true });
+    } catch (err) {
+      throw new MigrationFileError(
+        `Failed to create migrations directory "${this.source.dir}"`,
+        err as Error
+      );
+    }
+
+    await this.init();
+
+    const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+    const fileName = `${timestamp}_${slug}.${format}`;
+
+    // New migrations must run after everything that has already been applied
+    const lastApplied = [...this.getAppliedNames()].sort().pop();
+    if (lastApplied !== undefined && fileName < lastApplied) {
+      throw new MigrationFileError(
+        `Migration "${fileName}" would sort before already applied migration "${lastApplied}".`
+      );
+    }
+
+    const filePath = path.join(this.source.dir, fileName);
+    try {
+      await fs.writeFile(filePath, template, { flag: 'wx' });
+    } catch (err) {
+      throw new MigrationFileError(`Failed to create migration "${fileName}"`, err as Error);
+    }
+
+    // Reload migrations on next use so the new file is picked up
+    this.initialized = false;
+
+    return filePath;
+  }
 }
 
-export { MigratorOptions, MigrationResult, MigrationRecord, MigrationPlan, MigrationStatus };
+export * from './errors.js';
+export { DirectoryMigrationSource, MemoryMigrationSource };
+export { consoleLogger, noopLogger };
+export {
+  MigratorOptions,
+  MigrationResult,
+  MigrationRecord,
+  MigrationPlan,
+  MigrationStatus,
+  MigrationTarget,
+  RollbackOptions,
+  BaselineOptions,
+  MigrationFormat,
+  CreateMigrationOptions,
+  Migration,
+  MigrationModule,
+  MigrationSource,
+  TransactionMode,
+  OutOfOrderPolicy,
+  LockInfo,
+  ApplyOptions,
+  CapturedMigration,
+  BackupOptions,
+  BackupInfo,
+  ReversibilityCheck,
+  ReversibilityReport,
+  ValidationReport,
+  SeedModule,
+  SeedOptions,
+  SeedResult,
+  Logger,
+  MigrationDirection,
+  MigratorEvents,
+  BatchStartEvent,
+  BatchEndEvent,
+  MigrationStartEvent,
+  MigrationFailedEvent,
+};
@@ -0,0 +1,31 @@
+import console from 'console';
+
+import { Logger } from './types';
+
+/**
+ * Logger that discards all messages, used when no logger is configured.
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Logger that writes messages to the console, prefixed with `[sqlite-up]`.
+ * Debug messages are written with `console.debug`, so they can be filtered out by the console.
+ */
+export const consoleLogger: Logger = {
+  debug: (message, context) => console.debug(...format(message, context)),
+  info: (message, context) => console.info(...format(message, context)),
+  warn: (message, context) => console.warn(...format(message, context)),
+  error: (message, context) => console.error(...format(message, context)),
+};
+
+/**
+ * Get the arguments to pass to the console for a message and its context.
+ */
+function format(message: string, context?: Record<string, unknown>): unknown[] {
+  return context ? [`[sqlite-up] ${message}`, context] : [`[sqlite-up] ${message}`];
+}
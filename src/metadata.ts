@@ -0,0 +1,179 @@
+import { Database } from 'better-sqlite3';
+
+import { MigrationError } from './errors.js';
+
+/**
+ * Names of the tables the migrator keeps its own metadata in.
+ */
+export interface MetadataTables {
+  migrationsTable: string;
+  lockTable: string;
+  metaTable: string;
+  seedsTable: string;
+}
+
+/**
+ * An upgrade of the migrator's own tables.
+ * Upgrades must be idempotent: databases created before the metadata was versioned start at version 0,
+ * while their tables may already contain some of the changes.
+ */
+interface MetadataUpgrade {
+  description: string;
+  up: (db: Database, tables: MetadataTables) => void;
+}
+
+/**
+ * Add a column to an existing table if it doesn't have it yet.
+ */
+function addColumn(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Upgrades of the metadata tables, in order. The version of the metadata is the number of upgrades applied.
+ * Never change or remove an upgrade that was released, add a new one to the end instead.
+ */
+const METADATA_UPGRADES: MetadataUpgrade[] = [
+  {
+    description: 'Create the migrations and lock tables',
+    up: (db, { migrationsTable, lockTable }): void => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+          name TEXT PRIMARY KEY,
+          executed_at TEXT NOT NULL,   -- ISO string
+          batch INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS ${lockTable} (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          locked INTEGER NOT NULL DEFAULT 0
+        );
+
+        -- Ensure exactly one row in the lock table (id=1)
+        INSERT OR IGNORE INTO ${lockTable} (id, locked) VALUES (1, 0);
+      `);
+    },
+  },
+  {
+    description: 'Track the checksum of applied migrations',
+    up: (db, { migrationsTable }): void => {
+      // NULL for migrations applied before checksums were tracked
+      addColumn(db, migrationsTable, 'checksum', 'TEXT');
+    },
+  },
+  {
+    description: 'Track the process holding the lock',
+    up: (db, { lockTable }): void => {
+      addColumn(db, lockTable, 'pid', 'INTEGER');
+      addColumn(db, lockTable, 'hostname', 'TEXT');
+      addColumn(db, lockTable, 'acquired_at', 'TEXT'); // ISO string
+    },
+  },
+  {
+    description: 'Track the duration of applied migrations',
+    up: (db, { migrationsTable }): void => {
+      // NULL for migrations applied before durations were tracked
+      addColumn(db, migrationsTable, 'duration_ms', 'INTEGER');
+    },
+  },
+  {
+    description: 'Create the seeds table',
+    up: (db, { seedsTable }): void => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${seedsTable} (
+          name TEXT PRIMARY KEY,
+          executed_at TEXT NOT NULL,   -- ISO string
+          checksum TEXT
+        )
+      `);
+    },
+  },
+];
+
+/**
+ * Current version of the metadata tables.
+ */
+export const METADATA_VERSION = METADATA_UPGRADES.length;
+
+/**
+ * Check whether all metadata tables exist.
+ * The version is stored per migrations table, while the lock table can be configured separately,
+ * e.g. by two apps sharing the migrations table.
+ */
+function tablesExist(db: Database, tables: MetadataTables): boolean {
+  const names = [tables.migrationsTable, tables.lockTable, tables.seedsTable];
+  const existing = db
+    .prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (${names.map(() => '?').join(', ')})`
+    )
+    .pluck()
+    .all(...names);
+  return existing.length === names.length;
+}
+
+/**
+ * Read the version of the metadata tables, 0 when the metadata was never versioned.
+ */
+function readVersion(db: Database, metaTable: string): number {
+  const exists = db
+    .prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(metaTable);
+  if (!exists) {
+    return 0;
+  }
+
+  const row = db.prepare(`SELECT value FROM ${metaTable} WHERE key = 'version'`).get() as
+    | { value: string }
+    | undefined;
+  return row ? Number(row.value) : 0;
+}
+
+/**
+ * Create or upgrade the migrator's own tables to the current version.
+ * The version is stored in the meta table, upgrades that were not applied yet run in a single transaction.
+ * When one of the tables doesn't exist, all upgrades run again to create it, which is safe since they are idempotent.
+ * Returns the descriptions of the upgrades newer than the recorded version.
+ */
+export function upgradeMetadata(db: Database, tables: MetadataTables): string[] {
+  const { metaTable } = tables;
+
+  // Usually there is nothing to upgrade: check without a write transaction,
+  // so starting up doesn't wait for other processes that are writing to the database
+  if (readVersion(db, metaTable) === METADATA_VERSION && tablesExist(db, tables)) {
+    return [];
+  }
+
+  const upgrade = db.transaction((): string[] => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${metaTable} (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
+    const version = readVersion(db, metaTable);
+    if (version > METADATA_VERSION) {
+      throw new MigrationError(
+        `The migration tables were created by a newer version of sqlite-up (metadata version ${version}, supported up to ${METADATA_VERSION}).`
+      );
+    }
+
+    const upgrades = METADATA_UPGRADES.slice(version);
+    for (const { up } of tablesExist(db, tables) ? upgrades : METADATA_UPGRADES) {
+      up(db, tables);
+    }
+
+    if (upgrades.length > 0) {
+      db.prepare(`INSERT OR REPLACE INTO ${metaTable} (key, value) VALUES ('version', ?)`).run(
+        String(METADATA_VERSION)
+      );
+    }
+    return upgrades.map((u) => u.description);
+  });
+
+  // Take the write lock up front, so concurrent processes don't upgrade at the same time
+  return upgrade.immediate();
+}
@@ -0,0 +1,65 @@
+import { Database } from 'better-sqlite3';
+
+/**
+ * Order in which schema objects are written, tables first so the dump reads top to bottom.
+ */
+const TYPE_ORDER = ['table', 'index', 'view', 'trigger'];
+
+/**
+ * A row of `sqlite_master`.
+ */
+interface SchemaObject {
+  type: string;
+  name: string;
+  tbl_name: string;
+  sql: string;
+}
+
+/**
+ * Normalize the SQL of a schema object: trailing whitespace and common indentation are removed,
+ * so the same schema always produces the same text regardless of how the migration was formatted.
+ */
+function normalizeSql(sql: string): string {
+  const lines = sql
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd());
+
+  // The first line starts after the trimmed indentation, only dedent the following lines
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.length > 0)
+    .map((line) => line.length - line.trimStart().length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  const normalized = [lines[0], ...lines.slice(1).map((line) => line.slice(indent))].join('\n');
+  return normalized.endsWith(';') ? normalized : `${normalized};`;
+}
+
+/**
+ * Dump the tables, indexes, views and triggers of a database as normalized SQL.
+ * Objects are sorted by type and name, internal `sqlite_` objects are never included.
+ * @param exclude Tables to leave out of the dump, including their indexes and triggers.
+ */
+export function dumpSchema(db: Database, exclude: string[] = []): string {
+  const objects = db
+    .prepare(
+      `
+      SELECT type, name, tbl_name, sql
+      FROM sqlite_master
+      WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+    `
+    )
+    .all() as SchemaObject[];
+
+  const statements = objects
+    .filter((o) => TYPE_ORDER.includes(o.type) && !exclude.includes(o.tbl_name))
+    .sort(
+      (a, b) =>
+        TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+        (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+    )
+    .map((o) => normalizeSql(o.sql));
+
+  return statements.length > 0 ? `${statements.join('\n\n')}\n` : '';
+}
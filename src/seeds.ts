@@ -0,0 +1,130 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import { Database } from 'better-sqlite3';
+
+import { SeedModule } from './types';
+import { MigrationFileError } from './errors.js';
+import { computeChecksum } from './checksum.js';
+
+/**
+ * A seed loaded from the seeds directory.
+ */
+export interface Seed {
+  name: string;
+  run: (db: Database) => void | Promise<void>;
+  env?: string[];
+  rerunnable: boolean;
+  checksum: string;
+}
+
+/**
+ * Matches the `-- +env development, test` directive of `.sql` seeds.
+ */
+const ENV_DIRECTIVE = /^\s*--\s*\+env\s+(.+?)\s*$/i;
+
+/**
+ * Matches the `-- +rerunnable` directive of `.sql` seeds.
+ */
+const RERUNNABLE_DIRECTIVE = /^\s*--\s*\+rerunnable\s*$/i;
+
+/**
+ * Validate a loaded seed module and turn it into a seed.
+ */
+function toSeed(name: string, module: Partial<SeedModule>, checksum: string): Seed {
+  const { seed, env, rerunnable } = module;
+  if (typeof seed !== 'function') {
+    throw new MigrationFileError(`Seed "${name}" must export a "seed" function.`);
+  }
+
+  const envs = typeof env === 'string' ? [env] : env;
+  if (envs !== undefined && (!Array.isArray(envs) || envs.some((e) => typeof e !== 'string'))) {
+    throw new MigrationFileError(`Seed "${name}" must export "env" as a string or an array.`);
+  }
+  if (rerunnable !== undefined && typeof rerunnable !== 'boolean') {
+    throw new MigrationFileError(`Seed "${name}" must export "rerunnable" as a boolean.`);
+  }
+
+  return { name, run: seed, env: envs, rerunnable: rerunnable ?? false, checksum };
+}
+
+/**
+ * Turn the contents of a `.sql` seed into a seed, the whole file runs as one script.
+ * `-- +env` and `-- +rerunnable` comment lines take the place of the module exports.
+ * @example
+ * -- +env development, test
+ * INSERT INTO users (name) VALUES ('alice');
+ */
+function parseSqlSeed(name: string, contents: string, checksum: string): Seed {
+  let env: string[] | undefined;
+  let rerunnable = false;
+
+  for (const line of contents.split(/\r?\n/)) {
+    const envMatch = ENV_DIRECTIVE.exec(line);
+    if (envMatch) {
+      env = envMatch[1]!.split(/[\s,]+/).filter((e) => e.length > 0);
+    } else if (RERUNNABLE_DIRECTIVE.test(line)) {
+      rerunnable = true;
+    }
+  }
+
+  const sql = contents.trim();
+  return {
+    name,
+    run: (db: Database): void => {
+      if (sql) {
+        db.exec(sql);
+      }
+    },
+    env,
+    rerunnable,
+    checksum,
+  };
+}
+
+/**
+ * Load the seed files of a directory in alphabetical order.
+ * Seed modules must export a `seed` function, `.sql` files are run as they are.
+ */
+export async function loadSeeds(dir: string, fileExtensions: string[]): Promise<Seed[]> {
+  try {
+    const entries = await fs.readdir(dir);
+    const seedFiles = entries
+      .filter((file) => !file.endsWith('.d.ts'))
+      .filter((file) => fileExtensions.some((ext) => file.endsWith(`.${ext}`)))
+      .sort();
+
+    const seeds: Seed[] = [];
+    for (const file of seedFiles) {
+      const fullPath = path.join(dir, file);
+
+      let contents: string;
+      try {
+        contents = await fs.readFile(fullPath, 'utf8');
+      } catch (err) {
+        throw new MigrationFileError(`Error loading seed "${file}": ${String(err)}`, err as Error);
+      }
+      const checksum = computeChecksum(contents);
+
+      if (file.endsWith('.sql')) {
+        seeds.push(parseSqlSeed(file, contents, checksum));
+        continue;
+      }
+
+      let imported: Partial<SeedModule>;
+      try {
+        imported = await import(fullPath);
+      } catch (err) {
+        throw new MigrationFileError(`Error loading seed "${file}": ${String(err)}`, err as Error);
+      }
+
+      seeds.push(toSeed(file, imported, checksum));
+    }
+
+    return seeds;
+  } catch (err) {
+    throw err instanceof MigrationFileError
+      ? err
+      : new MigrationFileError('Failed to load seeds', err as Error);
+  }
+}
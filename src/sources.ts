@@ -0,0 +1,153 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import { Migration, MigrationModule, MigrationSource } from './types';
+import { MigrationFileError } from './errors.js';
+import { parseSqlMigration } from './sql.js';
+import { computeChecksum } from './checksum.js';
+
+/**
+ * Migrations accepted by the `MemoryMigrationSource`.
+ */
+type MemoryMigrations =
+  | Migration[]
+  | Record<string, MigrationModule | (() => Promise<MigrationModule>)>;
+
+/**
+ * Validate a loaded migration module and turn it into a migration.
+ */
+function toMigration(name: string, module: Partial<MigrationModule>, checksum?: string): Migration {
+  const { up, down, transaction } = module;
+  if (typeof up !== 'function' || typeof down !== 'function') {
+    throw new MigrationFileError(`Migration "${name}" must export "up" and "down" functions.`);
+  }
+  if (transaction !== undefined && typeof transaction !== 'boolean') {
+    throw new MigrationFileError(`Migration "${name}" must export "transaction" as a boolean.`);
+  }
+
+  return { name, up, down, transaction, checksum };
+}
+
+/**
+ * Loads migration files from a directory on disk.
+ * Migration modules must export { up, down }, `.sql` files must contain `-- +up` and `-- +down` sections.
+ * @example
+ * const source = new DirectoryMigrationSource('migrations', { fileExtensions: ['ts', 'sql'] });
+ */
+export class DirectoryMigrationSource implements MigrationSource {
+  readonly dir: string;
+  private fileExtensions: string[];
+
+  constructor(dir: string, options: { fileExtensions?: string[] } = {}) {
+    this.dir = dir;
+    this.fileExtensions = options.fileExtensions ?? ['ts', 'js', 'sql'];
+  }
+
+  /**
+   * Load the migration files in alphabetical order.
+   */
+  async load(): Promise<Migration[]> {
+    try {
+      const entries = await fs.readdir(this.dir);
+      // Filter and sort migration files alphabetically
+      const migrationFiles = entries
+        .filter((file) => {
+          // Ignore .d.ts files
+          if (file.endsWith('.d.ts')) {
+            return false;
+          }
+          // Check if file has one of the allowed extensions
+          return this.fileExtensions.some((ext) => file.endsWith(`.${ext}`));
+        })
+        .sort();
+
+      const migrations: Migration[] = [];
+      for (const file of migrationFiles) {
+        const fullPath = path.join(this.dir, file);
+
+        let contents: string;
+        try {
+          contents = await fs.readFile(fullPath, 'utf8');
+        } catch (err) {
+          throw new MigrationFileError(
+            `Error loading migration "${file}": ${String(err)}`,
+            err as Error
+          );
+        }
+        const checksum = computeChecksum(contents);
+
+        // Plain SQL migrations are parsed instead of imported
+        if (file.endsWith('.sql')) {
+          migrations.push({ ...parseSqlMigration(file, contents), checksum });
+          continue;
+        }
+
+        let imported: Partial<MigrationModule>;
+        try {
+          // Dynamic import (ESM)
+          imported = await import(fullPath);
+        } catch (err) {
+          throw new MigrationFileError(
+            `Error loading migration "${file}": ${String(err)}`,
+            err as Error
+          );
+        }
+
+        migrations.push(toMigration(file, imported, checksum));
+      }
+
+      return migrations;
+    } catch (err) {
+      throw err instanceof MigrationFileError
+        ? err
+        : new MigrationFileError('Failed to load migrations', err as Error);
+    }
+  }
+}
+
+/**
+ * Provides migrations that are already in memory, for bundled apps without access to migration files.
+ * Accepts an array of `{ name, up, down }` objects, or a record of modules keyed by file path
+ * (eager or lazy) as returned by `import.meta.glob`. Names of record entries are the file names of the keys.
+ * @example
+ * const source = new MemoryMigrationSource(import.meta.glob('./migrations/*.ts', { eager: true }));
+ */
+export class MemoryMigrationSource implements MigrationSource {
+  private migrations: MemoryMigrations;
+
+  constructor(migrations: MemoryMigrations) {
+    this.migrations = migrations;
+  }
+
+  /**
+   * Load the migrations sorted by name.
+   */
+  async load(): Promise<Migration[]> {
+    const migrations: Migration[] = [];
+
+    if (Array.isArray(this.migrations)) {
+      for (const definition of this.migrations) {
+        migrations.push(toMigration(definition.name, definition, definition.checksum));
+      }
+    } else {
+      for (const [key, entry] of Object.entries(this.migrations)) {
+        const name = path.basename(key);
+
+        let module: MigrationModule;
+        try {
+          // Lazy entries (import.meta.glob without `eager`) are functions returning the module
+          module = typeof entry === 'function' ? await entry() : entry;
+        } catch (err) {
+          throw new MigrationFileError(
+            `Error loading migration "${name}": ${String(err)}`,
+            err as Error
+          );
+        }
+
+        migrations.push(toMigration(name, module));
+      }
+    }
+
+    return migrations.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  }
+}
@@ -0,0 +1,96 @@
+import { Database } from 'better-sqlite3';
+
+import { Migration } from './types';
+import { MigrationExecutionError, MigrationFileError } from './errors.js';
+
+type SqlSection = 'up' | 'down';
+
+/**
+ * Matches a section marker line such as `-- +up` or `-- +down`.
+ */
+const SECTION_MARKER = /^\s*--\s*\+(up|down)\b.*$/i;
+
+/**
+ * Matches the `-- +no-transaction` directive, which must appear before the first section.
+ */
+const NO_TRANSACTION = /^\s*--\s*\+no-transaction\s*$/i;
+
+/**
+ * Matches lines that only contain whitespace or a SQL line comment.
+ */
+const COMMENT_OR_BLANK = /^\s*(--.*)?$/;
+
+/**
+ * Parse the contents of a `.sql` migration file into a migration.
+ * The file is split into sections using `-- +up` and `-- +down` markers, the `up` section is required.
+ * Without a `down` section the migration is irreversible, rolling it back fails.
+ * A `-- +no-transaction` line before the first section runs the migration outside of a transaction.
+ * @example
+ * -- +up
+ * CREATE TABLE users (id INTEGER PRIMARY KEY);
+ *
+ * -- +down
+ * DROP TABLE users;
+ */
+export function parseSqlMigration(name: string, contents: string): Migration {
+  const sections: Partial<Record<SqlSection, string[]>> = {};
+  let current: SqlSection | undefined;
+  let transaction = true;
+
+  for (const line of contents.split(/\r?\n/)) {
+    const marker = SECTION_MARKER.exec(line);
+    if (marker) {
+      current = marker[1]!.toLowerCase() as SqlSection;
+      if (sections[current]) {
+        throw new MigrationFileError(
+          `Migration "${name}" contains more than one "-- +${current}" section.`
+        );
+      }
+
+      sections[current] = [];
+      continue;
+    }
+
+    if (!current) {
+      if (NO_TRANSACTION.test(line)) {
+        transaction = false;
+        continue;
+      }
+
+      // Only comments are allowed before the first section marker
+      if (!COMMENT_OR_BLANK.test(line)) {
+        throw new MigrationFileError(
+          `Migration "${name}" contains SQL outside of a "-- +up" or "-- +down" section.`
+        );
+      }
+      continue;
+    }
+
+    sections[current]!.push(line);
+  }
+
+  if (!sections.up) {
+    throw new MigrationFileError(`Migration "${name}" must contain a "-- +up" section.`);
+  }
+
+  const upSql = sections.up.join('\n').trim();
+  const downSql = (sections.down ?? []).join('\n').trim();
+
+  return {
+    name,
+    up: (db: Database): void => {
+      if (upSql) {
+        db.exec(upSql);
+      }
+    },
+    down: (db: Database): void => {
+      if (!downSql) {
+        throw new MigrationExecutionError(
+          `Migration "${name}" is irreversible, it has no "-- +down" section.`
+        );
+      }
+      db.exec(downSql);
+    },
+    transaction,
+  };
+}
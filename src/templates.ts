@@ -0,0 +1,29 @@
+import { MigrationFormat } from './types';
+
+/**
+ * Templates for new migration files, by format.
+ */
+export const MIGRATION_TEMPLATES: Record<MigrationFormat, string> = {
+  ts: `import { Database } from 'better-sqlite3';
+
+export function up(db: Database): void {
+  db.exec(\`\`);
+}
+
+export function down(db: Database): void {
+  db.exec(\`\`);
+}
+`,
+  js: `export function up(db) {
+  db.exec(\`\`);
+}
+
+export function down(db) {
+  db.exec(\`\`);
+}
+`,
+  sql: `-- +up
+
+-- +down
+`,
+};
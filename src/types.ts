@@ -1,5 +1,167 @@
 import { Database } from 'better-sqlite3';
 
+/**
+ * How pending migrations are grouped into transactions:
+ * - batch: all migrations of a batch run in a single transaction
+ * - migration: every migration is committed in its own transaction
+ */
+export type TransactionMode = 'batch' | 'migration';
+
+/**
+ * How to handle pending migrations that sort before already applied migrations:
+ * - allow: apply them like any other migration
+ * - warn: apply them, but report them in the result and log a warning
+ * - error: refuse to apply them
+ */
+export type OutOfOrderPolicy = 'allow' | 'warn' | 'error';
+
+/**
+ * Whether migrations are applied (`up`) or rolled back (`down`).
+ */
+export type MigrationDirection = 'up' | 'down';
+
+/**
+ * Payload of the `batch:start` event.
+ */
+export interface BatchStartEvent {
+  /**
+   * Whether the batch applies or rolls back migrations
+   */
+  direction: MigrationDirection;
+
+  /**
+   * Names of the migrations that will run, in order
+   */
+  migrations: string[];
+}
+
+/**
+ * Payload of the `batch:end` event.
+ */
+export interface BatchEndEvent extends BatchStartEvent {
+  /**
+   * Whether all migrations of the batch ran successfully
+   */
+  success: boolean;
+
+  /**
+   * Names of the migrations that were committed
+   */
+  committed: string[];
+
+  /**
+   * Time in milliseconds the batch took
+   */
+  durationMs: number;
+
+  /**
+   * Error that stopped the batch
+   */
+  error?: Error;
+}
+
+/**
+ * Payload of the `migration:start` event.
+ */
+export interface MigrationStartEvent {
+  /**
+   * Name of the migration
+   */
+  name: string;
+
+  /**
+   * Batch the migration is applied in or rolled back from
+   */
+  batch: number;
+
+  /**
+   * Whether the migration is applied or rolled back
+   */
+  direction: MigrationDirection;
+}
+
+/**
+ * Payload of the `migration:failed` event.
+ */
+export interface MigrationFailedEvent extends MigrationStartEvent {
+  /**
+   * Error thrown by the migration
+   */
+  error: Error;
+
+  /**
+   * Time in milliseconds the migration ran before it failed
+   */
+  durationMs: number;
+}
+
+/**
+ * Events emitted by the migrator, with the arguments passed to their listeners.
+ * @example
+ * migrator.on('migration:applied', (name, batch, durationMs) => console.log(`${name} took ${durationMs}ms`));
+ */
+export interface MigratorEvents {
+  /**
+   * A batch of migrations is about to be applied or rolled back
+   */
+  'batch:start': [event: BatchStartEvent];
+
+  /**
+   * A batch of migrations finished, successfully or not
+   */
+  'batch:end': [event: BatchEndEvent];
+
+  /**
+   * A migration is about to run
+   */
+  'migration:start': [event: MigrationStartEvent];
+
+  /**
+   * A migration was applied
+   */
+  'migration:applied': [name: string, batch: number, durationMs: number];
+
+  /**
+   * A migration was rolled back
+   */
+  'migration:rollback': [name: string, batch: number, durationMs: number];
+
+  /**
+   * A migration threw an error
+   */
+  'migration:failed': [event: MigrationFailedEvent];
+
+  /**
+   * A migration was recorded as applied by `markApplied()`, without running it
+   */
+  'migration:marked-applied': [name: string, batch: number];
+
+  /**
+   * The record of an applied migration was removed by `markUnapplied()`, without running its `down`
+   */
+  'migration:marked-unapplied': [name: string, batch: number];
+
+  /**
+   * An applied migration was modified after it ran
+   */
+  'migration:drift': [name: string];
+
+  /**
+   * The migration lock was acquired, after waiting `waitedMs` for other processes
+   */
+  'lock:acquired': [event: { waitedMs: number }];
+
+  /**
+   * The migration lock was released after being held for `heldMs`
+   */
+  'lock:released': [event: { heldMs: number }];
+
+  /**
+   * Reserved by EventEmitter, the migrator reports errors through its results instead
+   */
+  error: [error: Error];
+}
+
 /**
  * Options for initializing the Migrator.
  */
@@ -10,9 +172,14 @@ export interface MigratorOptions {
   db: Database;
 
   /**
-   * Directory containing migration files
+   * Directory containing migration files (required unless a `source` is provided)
+   */
+  migrationsDir?: string;
+
+  /**
+   * Source to load migrations from instead of `migrationsDir`, e.g. a `MemoryMigrationSource`
    */
-  migrationsDir: string;
+  source?: MigrationSource;
 
   /**
    * Name of the migrations table (default: schema_migrations)
@@ -25,10 +192,116 @@ export interface MigratorOptions {
   migrationsLockTable?: string;
 
   /**
-   * File extensions to look for when loading migrations (default: ['ts', 'js'])
-   * Note: .d.ts files are always ignored
+   * File extensions to look for when loading migrations (default: ['ts', 'js', 'sql'])
+   * Note: .d.ts files are always ignored, .sql files are parsed for `-- +up` and `-- +down` sections
    */
   fileExtensions?: string[];
+
+  /**
+   * Directory containing seed files, run by `seed()` separately from the migrations
+   * Seeds use the same file extensions as migrations, `.sql` seeds are run as a whole.
+   */
+  seedsDir?: string;
+
+  /**
+   * Refuse to apply migrations when an applied migration was modified after it ran (default: false)
+   * When disabled, modified migrations are only reported.
+   */
+  validateChecksums?: boolean;
+
+  /**
+   * Run all migrations of a batch in one transaction, or commit each migration on its own (default: batch)
+   */
+  transactionMode?: TransactionMode;
+
+  /**
+   * How to handle pending migrations that sort before already applied migrations (default: allow)
+   * This happens when branches with new migrations are merged after later migrations already ran.
+   */
+  outOfOrder?: OutOfOrderPolicy;
+
+  /**
+   * Time in milliseconds after which a held lock is considered stale and can be taken over
+   * Use this to recover from processes that crashed while holding the lock. By default locks never expire.
+   * The TTL must be longer than the longest batch, otherwise another process can take over the lock mid-batch.
+   */
+  lockTtlMs?: number;
+
+  /**
+   * Time in milliseconds to wait for a lock held by another process before failing (default: 0)
+   * After waiting, pending migrations are determined again, so usually there is nothing left to apply.
+   * Also bounds the time spent waiting for other connections that are writing to the database.
+   */
+  lockTimeoutMs?: number;
+
+  /**
+   * Time in milliseconds between attempts to acquire the lock while waiting (default: 100)
+   */
+  lockRetryIntervalMs?: number;
+
+  /**
+   * Path of a schema file (e.g. `schema.sql`) that is rewritten after every successful apply or rollback
+   * Commit the file to review schema changes in pull requests.
+   */
+  schemaFile?: string;
+
+  /**
+   * Back up the database before each batch of migrations is applied or rolled back
+   */
+  backup?: BackupOptions;
+
+  /**
+   * Logger for loading migrations, locking, running migrations and errors (default: no logging)
+   * Use `consoleLogger` to log to the console, or adapt a structured logger to the `Logger` interface.
+   */
+  logger?: Logger;
+}
+
+/**
+ * Logger used by the migrator, compatible with most structured loggers.
+ * @param message Human readable message.
+ * @param context Structured details, such as the migration name, batch or duration.
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Options for backing up the database before running migrations.
+ */
+export interface BackupOptions {
+  /**
+   * Directory the backups are written to, it is created when it doesn't exist
+   */
+  dir: string;
+
+  /**
+   * Number of most recent backups to keep, older backups are deleted (default: 5)
+   */
+  keep?: number;
+}
+
+/**
+ * A backup of the database, taken before a batch of migrations ran.
+ */
+export interface BackupInfo {
+  /**
+   * Id of the backup, pass it to `restoreBackup()` to restore it
+   */
+  id: string;
+
+  /**
+   * Path of the backup file
+   */
+  path: string;
+
+  /**
+   * When the backup was taken (ISO string)
+   */
+  createdAt: string;
 }
 
 /**
@@ -41,14 +314,55 @@ export interface Migration {
   name: string;
 
   /**
-   * Function to apply the migration
+   * Function to apply the migration, may be async
+   */
+  up: (db: Database) => void | Promise<void>;
+
+  /**
+   * Function to revert the migration, may be async
+   */
+  down: (db: Database) => void | Promise<void>;
+
+  /**
+   * Set to false to run the migration outside of a transaction (default: true)
+   * Required for statements such as `VACUUM` or `PRAGMA foreign_keys = OFF`.
    */
-  up: (db: Database) => void;
+  transaction?: boolean;
 
   /**
-   * Function to revert the migration
+   * Checksum of the migration contents, used to detect modifications after it was applied
    */
-  down: (db: Database) => void;
+  checksum?: string;
+}
+
+/**
+ * The exports of a migration module.
+ */
+export interface MigrationModule {
+  /**
+   * Function to apply the migration, may be async
+   */
+  up: (db: Database) => void | Promise<void>;
+
+  /**
+   * Function to revert the migration, may be async
+   */
+  down: (db: Database) => void | Promise<void>;
+
+  /**
+   * Set to false to run the migration outside of a transaction (default: true)
+   */
+  transaction?: boolean;
+}
+
+/**
+ * Provides the migrations to run, e.g. from a directory or from memory.
+ */
+export interface MigrationSource {
+  /**
+   * Load all migrations, sorted in the order they should be applied
+   */
+  load(): Promise<Migration[]>;
 }
 
 /**
@@ -69,6 +383,16 @@ export interface MigrationRecord {
    * Batch number for the migration
    */
   batch: number;
+
+  /**
+   * Checksum of the migration contents when it was applied (null if it was not tracked)
+   */
+  checksum: string | null;
+
+  /**
+   * Time in milliseconds the migration took to run (null if it was not tracked)
+   */
+  duration_ms: number | null;
 }
 
 /**
@@ -87,8 +411,192 @@ export interface MigrationResult {
 
   /**
    * List of migrations that were applied/rolled back
+   * When the operation failed, these are the migrations whose changes were committed before the failure.
    */
   appliedMigrations: string[];
+
+  /**
+   * Name of the migration that failed, if the operation failed while running a migration
+   */
+  failedMigration?: string;
+
+  /**
+   * SQL statements captured per migration, when applying with `dryRun`
+   */
+  capturedSql?: CapturedMigration[];
+
+  /**
+   * List of applied migrations that were modified after they ran
+   */
+  driftedMigrations?: string[];
+
+  /**
+   * Id of the backup taken before the batch ran, when backups are enabled
+   */
+  backupId?: string;
+
+  /**
+   * Pending migrations that sort before already applied migrations, when `outOfOrder` is `warn` or `error`
+   */
+  outOfOrderMigrations?: string[];
+}
+
+/**
+ * Limits which pending migrations are applied or planned.
+ */
+export interface MigrationTarget {
+  /**
+   * Apply pending migrations up to and including this migration
+   */
+  to?: string;
+
+  /**
+   * Apply at most this number of pending migrations
+   */
+  steps?: number;
+}
+
+/**
+ * Options for applying migrations.
+ */
+export interface ApplyOptions extends MigrationTarget {
+  /**
+   * Run the migrations in a transaction that is always rolled back, and capture the SQL they execute
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * SQL statements captured for a migration during a dry run.
+ */
+export interface CapturedMigration {
+  /**
+   * Name of the migration
+   */
+  name: string;
+
+  /**
+   * SQL statements executed by the migration, in order
+   */
+  statements: string[];
+
+  /**
+   * Whether the migration was skipped because it opts out of transactions and could not be rolled back
+   */
+  skipped?: boolean;
+}
+
+/**
+ * A seed module: a file in the seeds directory.
+ */
+export interface SeedModule {
+  /**
+   * Function to insert the seed data, may be async
+   */
+  seed: (db: Database) => void | Promise<void>;
+
+  /**
+   * Environments the seed runs in, e.g. `development` (default: all environments)
+   */
+  env?: string | string[];
+
+  /**
+   * Set to true to run the seed on every `seed()` instead of only once (default: false)
+   * Re-runnable seeds must be idempotent, e.g. using `INSERT OR REPLACE`.
+   */
+  rerunnable?: boolean;
+}
+
+/**
+ * Selects which seeds are run.
+ */
+export interface SeedOptions {
+  /**
+   * Names of the seeds to run, instead of all seeds
+   */
+  only?: string[];
+
+  /**
+   * Current environment, seeds restricted to other environments are skipped
+   * Without an environment only seeds that are not restricted run.
+   */
+  env?: string;
+}
+
+/**
+ * Result of running seeds.
+ */
+export interface SeedResult {
+  /**
+   * Whether all seeds ran successfully
+   */
+  success: boolean;
+
+  /**
+   * Error if the operation failed
+   */
+  error?: Error;
+
+  /**
+   * List of seeds that ran, empty when the operation failed since all seeds run in a single transaction
+   */
+  seeded: string[];
+
+  /**
+   * List of selected seeds that did not run, because they already ran or are restricted to other environments
+   */
+  skipped: string[];
+
+  /**
+   * Name of the seed that failed, if the operation failed while running a seed
+   */
+  failedSeed?: string;
+}
+
+/**
+ * Options for baselining an existing database.
+ */
+export interface BaselineOptions {
+  /**
+   * Last migration that is already reflected in the database, it and all migrations before it are recorded as applied
+   */
+  to: string;
+}
+
+/**
+ * Selects which applied migrations are rolled back.
+ * Without options the most recent batch is rolled back.
+ */
+export interface RollbackOptions {
+  /**
+   * Roll back every migration applied after this migration, which itself stays applied
+   */
+  to?: string;
+
+  /**
+   * Roll back this number of the most recent batches
+   */
+  batches?: number;
+
+  /**
+   * Roll back this number of the most recently applied migrations
+   */
+  steps?: number;
+}
+
+/**
+ * File format of a migration created with `Migrator.create()`.
+ */
+export type MigrationFormat = 'ts' | 'js' | 'sql';
+
+/**
+ * Options for creating a new migration file.
+ */
+export interface CreateMigrationOptions {
+  /**
+   * Format of the migration file (default: ts)
+   */
+  format?: MigrationFormat;
 }
 
 /**
@@ -104,6 +612,11 @@ export interface MigrationPlan {
    * List of migrations that will be applied
    */
   pendingMigrations: string[];
+
+  /**
+   * Pending migrations that sort before already applied migrations, when `outOfOrder` is `warn`
+   */
+  outOfOrderMigrations?: string[];
 }
 
 /**
@@ -124,4 +637,111 @@ export interface MigrationStatus {
    * List of applied migrations
    */
   applied: MigrationRecord[];
+
+  /**
+   * List of applied migrations that were modified after they ran
+   */
+  drifted: string[];
+}
+
+/**
+ * Problems found by `validate()`.
+ */
+export interface ValidationReport {
+  /**
+   * Whether no problems were found
+   */
+  valid: boolean;
+
+  /**
+   * Applied migrations that no longer exist in the migration source, they can't be rolled back
+   */
+  missing: string[];
+
+  /**
+   * Pending migrations that sort before the most recently applied migration
+   */
+  outOfOrder: string[];
+
+  /**
+   * Migrations that share their name with another migration, ignoring the file extension
+   * (e.g. `001_users.ts` and `001_users.js`)
+   */
+  duplicates: string[];
+}
+
+/**
+ * Result of verifying that a migration's `down` reverses its `up`.
+ */
+export interface ReversibilityCheck {
+  /**
+   * Name of the migration
+   */
+  name: string;
+
+  /**
+   * Whether `down` restored the schema from before `up` and `up` could be applied again
+   */
+  reversible: boolean;
+
+  /**
+   * Schema before the migration was applied, set when `down` left a different schema behind
+   */
+  expectedSchema?: string;
+
+  /**
+   * Schema after the migration was reverted, set when it differs from the expected schema
+   */
+  actualSchema?: string;
+
+  /**
+   * Error thrown while applying, reverting or re-applying the migration
+   */
+  error?: Error;
+}
+
+/**
+ * Result of verifying the reversibility of pending migrations.
+ */
+export interface ReversibilityReport {
+  /**
+   * Whether every pending migration is reversible
+   */
+  success: boolean;
+
+  /**
+   * Result for each verified migration, in the order they were applied
+   * Verification stops at the first migration that cannot be applied.
+   */
+  migrations: ReversibilityCheck[];
+}
+
+/**
+ * State of the migration lock.
+ */
+export interface LockInfo {
+  /**
+   * Whether the lock is held
+   */
+  locked: boolean;
+
+  /**
+   * Process id of the lock holder
+   */
+  pid: number | null;
+
+  /**
+   * Hostname of the lock holder
+   */
+  hostname: string | null;
+
+  /**
+   * ISO timestamp when the lock was acquired
+   */
+  acquiredAt: string | null;
+
+  /**
+   * Whether the lock is held for longer than the configured `lockTtlMs`
+   */
+  stale: boolean;
 }